@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseAllocationDirectives } from '../allocationDirectives';
+
+describe('parseAllocationDirectives', () => {
+  it('returns defaults for notes without directives', () => {
+    expect(parseAllocationDirectives(null)).toEqual({ directives: { skip: false }, warnings: [] });
+    expect(parseAllocationDirectives('Minecraft lobby\nowner: alice')).toEqual({
+      directives: { skip: false },
+      warnings: [],
+    });
+  });
+
+  it('reads overrides from every udm line', () => {
+    const { directives, warnings } = parseAllocationDirectives(
+      'Bedrock server\nudm: proto=UDP, source=192.0.2.0/24\nUDM: ip=10.0.1.50; disable',
+    );
+
+    expect(warnings).toEqual([]);
+    expect(directives).toEqual({
+      skip: false,
+      protocol: 'udp',
+      source: '192.0.2.0/24',
+      targetIp: '10.0.1.50',
+      enabled: false,
+    });
+  });
+
+  it('accepts protocol aliases, enabled flags and skip', () => {
+    expect(parseAllocationDirectives('udm: protocol=both enabled=yes skip').directives).toEqual({
+      skip: true,
+      protocol: 'tcp_udp',
+      enabled: true,
+    });
+    expect(parseAllocationDirectives('udm: source=any').directives.source).toBe('any');
+    expect(parseAllocationDirectives('udm: source=2001:db8::/32').directives.source).toBe(
+      '2001:db8::/32',
+    );
+  });
+
+  it('warns about malformed directives and ignores them', () => {
+    const { directives, warnings } = parseAllocationDirectives(
+      [
+        'udm:',
+        'udm: proto=sctp source=192.0.2.0/33 ip=host.lan',
+        'udm: enabled=maybe skip=true colour=blue port',
+      ].join('\n'),
+    );
+
+    expect(directives).toEqual({ skip: false });
+    expect(warnings).toEqual([
+      "empty 'udm:' directive",
+      "unknown protocol 'sctp'; expected tcp, udp or tcp_udp",
+      "invalid source '192.0.2.0/33'; expected an address, a CIDR or 'any'",
+      "invalid target IP 'host.lan'; expected an IPv4 address",
+      "invalid enabled value 'maybe'; expected true or false",
+      "directive 'skip' does not take a value (got 'skip=true')",
+      "unknown directive 'colour'",
+      "directive 'port' is missing a value",
+    ]);
+  });
+});
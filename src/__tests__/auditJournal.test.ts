@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AuditJournal, formatAuditEntry } from '../auditJournal';
+import type { AuditEntry } from '../auditJournal';
+
+const entryFactory = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  time: '2026-03-01T10:00:00.000Z',
+  action: 'create',
+  nodeId: 1,
+  allocationId: 101,
+  ruleId: null,
+  ruleName: 'ptero-alloc-101',
+  before: null,
+  after: { name: 'ptero-alloc-101' },
+  outcome: 'success',
+  error: null,
+  ...overrides,
+});
+
+describe('AuditJournal', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'audit-journal-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends timestamped entries as JSON lines', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00.000Z'), toFake: ['Date'] });
+    const path = join(dir, 'logs', 'audit.jsonl');
+    const journal = new AuditJournal(path);
+
+    const first: Omit<AuditEntry, 'time'> = {
+      action: 'create',
+      nodeId: 1,
+      allocationId: 101,
+      ruleId: null,
+      ruleName: 'ptero-alloc-101',
+      before: null,
+      after: { name: 'ptero-alloc-101' },
+      outcome: 'success',
+      error: null,
+    };
+    await journal.record(first);
+    await journal.record({ ...first, action: 'delete', allocationId: 102 });
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(entryFactory());
+    expect(JSON.parse(lines[1])).toMatchObject({ action: 'delete', allocationId: 102 });
+  });
+
+  it('filters entries by allocation and date range', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const entries = [
+      entryFactory({ time: '2026-03-01T10:00:00.000Z', allocationId: 101 }),
+      entryFactory({ time: '2026-03-02T10:00:00.000Z', allocationId: 102 }),
+      entryFactory({ time: '2026-03-03T10:00:00.000Z', allocationId: 101, action: 'delete' }),
+    ];
+    await writeFile(path, `${entries.map((entry) => JSON.stringify(entry)).join('\n')}\n\n`);
+    const journal = new AuditJournal(path);
+
+    expect(await journal.query()).toEqual(entries);
+    expect(await journal.query({ allocationId: 101 })).toEqual([entries[0], entries[2]]);
+    expect(
+      await journal.query({
+        since: new Date('2026-03-02T00:00:00.000Z'),
+        until: new Date('2026-03-02T23:59:59.000Z'),
+      }),
+    ).toEqual([entries[1]]);
+  });
+
+  it('returns no entries when the journal does not exist yet', async () => {
+    const journal = new AuditJournal(join(dir, 'missing.jsonl'));
+
+    expect(await journal.query()).toEqual([]);
+  });
+});
+
+describe('formatAuditEntry', () => {
+  it('summarises successful and failed changes', () => {
+    expect(formatAuditEntry(entryFactory())).toBe(
+      "2026-03-01T10:00:00.000Z create 'ptero-alloc-101' (node 1, allocation 101) ok",
+    );
+    expect(
+      formatAuditEntry(
+        entryFactory({
+          action: 'update',
+          ruleId: 'rule-101',
+          outcome: 'failure',
+          error: 'Request failed with status code 400',
+        }),
+      ),
+    ).toBe(
+      "2026-03-01T10:00:00.000Z update 'ptero-alloc-101' (node 1, allocation 101, rule rule-101) FAILED: Request failed with status code 400",
+    );
+    expect(
+      formatAuditEntry(
+        entryFactory({ action: 'delete', allocationId: null, ruleId: 'rule-x', ruleName: 'x' }),
+      ),
+    ).toBe("2026-03-01T10:00:00.000Z delete 'x' (node 1, rule rule-x) ok");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { backoffCycles, ChangeBackoff } from '../changeBackoff';
+import type { ChangeKey } from '../changeBackoff';
+
+const update: ChangeKey = {
+  nodeId: 1,
+  action: 'update',
+  ruleId: 'rule-101',
+  ruleName: 'ptero-alloc-101',
+};
+
+const create: ChangeKey = {
+  nodeId: 1,
+  action: 'create',
+  ruleId: null,
+  ruleName: 'ptero-alloc-102',
+};
+
+/** Runs cycles in which the change keeps failing and records which ones attempted it. */
+const attemptedCycles = (backoff: ChangeBackoff, cycles: number): number[] => {
+  const attempted: number[] = [];
+  for (let cycle = 1; cycle <= cycles; cycle += 1) {
+    if (!backoff.shouldSkip(update)) {
+      attempted.push(cycle);
+      backoff.recordFailure(update, 'rejected');
+    }
+    backoff.finishNode(1);
+  }
+  return attempted;
+};
+
+describe('backoffCycles', () => {
+  it('retries the first failure right away and then doubles up to the cap', () => {
+    expect([1, 2, 3, 4, 5, 6].map((failures) => backoffCycles(failures, 16))).toEqual([
+      0, 1, 3, 7, 15, 16,
+    ]);
+    expect(backoffCycles(5, 0)).toBe(0);
+  });
+});
+
+describe('ChangeBackoff', () => {
+  it('skips a persistently failing change for a growing number of cycles', () => {
+    expect(attemptedCycles(new ChangeBackoff(16), 12)).toEqual([1, 2, 4, 8]);
+    expect(attemptedCycles(new ChangeBackoff(1), 6)).toEqual([1, 2, 4, 6]);
+    expect(attemptedCycles(new ChangeBackoff(0), 3)).toEqual([1, 2, 3]);
+  });
+
+  it('reports the last error and failure count while skipping', () => {
+    const backoff = new ChangeBackoff(16);
+
+    expect(backoff.recordFailure(update, 'first')).toBe(1);
+    expect(backoff.recordFailure(update, 'second')).toBe(2);
+
+    expect(backoff.shouldSkip(update)).toEqual({ error: 'second', failures: 2 });
+    expect(backoff.shouldSkip(update)).toBeNull();
+  });
+
+  it('forgets a change once it succeeds', () => {
+    const backoff = new ChangeBackoff(16);
+    backoff.recordFailure(update, 'rejected');
+    backoff.recordFailure(update, 'rejected');
+
+    backoff.recordSuccess(update);
+
+    expect(backoff.shouldSkip(update)).toBeNull();
+    expect(backoff.recordFailure(update, 'rejected')).toBe(1);
+  });
+
+  it('drops failures of changes that were not planned again on their node', () => {
+    const backoff = new ChangeBackoff(16);
+    const otherNode: ChangeKey = { ...create, nodeId: 2 };
+    backoff.recordFailure(update, 'rejected');
+    backoff.recordFailure(create, 'rejected');
+    backoff.recordFailure(otherNode, 'rejected');
+
+    backoff.shouldSkip(update);
+    backoff.finishNode(1);
+
+    expect(backoff.recordFailure(update, 'rejected')).toBe(2);
+    expect(backoff.recordFailure(create, 'rejected')).toBe(1);
+    expect(backoff.recordFailure(otherNode, 'rejected')).toBe(2);
+  });
+});
@@ -0,0 +1,311 @@
+import { AxiosError, type AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  type CliContext,
+  cycleExitCode,
+  runCheck,
+  runListAllocations,
+  runListRules,
+  runPrune,
+  runSyncOnce,
+  syncExitCodes,
+} from '../cli';
+import type { AppConfig } from '../config';
+import type { PortForwardRule } from '../routerDriver';
+import type { CycleSummary } from '../syncStatus';
+
+const ruleFactory = (overrides: Partial<PortForwardRule> = {}): PortForwardRule => ({
+  id: 'rule-101',
+  name: 'ptero-alloc-101',
+  enabled: true,
+  externalPort: '25565',
+  internalPort: '25565',
+  internalIp: '10.0.1.10',
+  protocol: 'tcp_udp',
+  source: 'any',
+  destination: 'any',
+  wanIp: 'any',
+  raw: {},
+  ...overrides,
+});
+
+const summaryFactory = (overrides: Partial<CycleSummary> = {}): CycleSummary => ({
+  startedAt: '2026-01-01T00:00:00.000Z',
+  finishedAt: '2026-01-01T00:00:01.000Z',
+  durationMs: 1000,
+  result: 'success',
+  created: 0,
+  updated: 0,
+  deleted: 0,
+  skipped: 0,
+  conflicts: [],
+  cleanup: [],
+  pendingDeletions: [],
+  failedNodes: [],
+  failedChanges: [],
+  blockedNodes: [],
+  error: null,
+  ...overrides,
+});
+
+const createContext = ({
+  dryRun = false,
+  supportsPowerState = true,
+}: { dryRun?: boolean; supportsPowerState?: boolean } = {}) => {
+  const syncService = {
+    syncOnce: vi.fn().mockResolvedValue(summaryFactory()),
+    stop: vi.fn(),
+    listRules: vi.fn().mockResolvedValue([]),
+    listAllocations: vi.fn().mockResolvedValue([]),
+    prune: vi.fn().mockResolvedValue([]),
+  };
+  const pterodactylClient = {
+    listNodes: vi.fn().mockResolvedValue([{ id: 1, name: 'Node 1' }]),
+    verifyClientAccess: vi.fn().mockResolvedValue(undefined),
+    supportsPowerState,
+  };
+  const router = {
+    listPortForwards: vi.fn().mockResolvedValue([ruleFactory()]),
+  };
+  const context = {
+    config: { router: { backend: 'udm' }, sync: { dryRun } } as unknown as AppConfig,
+    syncService,
+    pterodactylClient,
+    router,
+  } as unknown as CliContext;
+  return { context, syncService, pterodactylClient, router };
+};
+
+const captureOutput = () => {
+  const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  return () => write.mock.calls.map(([chunk]) => String(chunk)).join('');
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('cycleExitCode', () => {
+  it('tells applied, partial, failed and empty cycles apart', () => {
+    expect(cycleExitCode(summaryFactory({ created: 1 }))).toBe(syncExitCodes.success);
+    expect(cycleExitCode(summaryFactory())).toBe(syncExitCodes.noop);
+    expect(cycleExitCode(summaryFactory({ result: 'partial', created: 1 }))).toBe(
+      syncExitCodes.partial,
+    );
+    expect(cycleExitCode(summaryFactory({ blockedNodes: [2] }))).toBe(syncExitCodes.partial);
+    expect(cycleExitCode(summaryFactory({ result: 'failed', error: 'boom' }))).toBe(
+      syncExitCodes.failed,
+    );
+    expect(cycleExitCode(null)).toBe(syncExitCodes.failed);
+  });
+});
+
+describe('runSyncOnce', () => {
+  it('prints the cycle summary and returns its exit code', async () => {
+    const output = captureOutput();
+    const listeners = process.listenerCount('SIGINT');
+    const { context, syncService } = createContext();
+    syncService.syncOnce.mockResolvedValue(
+      summaryFactory({
+        result: 'partial',
+        created: 2,
+        failedChanges: [
+          {
+            nodeId: 1,
+            action: 'delete',
+            allocationId: 103,
+            ruleId: 'rule-103',
+            ruleName: 'ptero-alloc-103',
+            error: 'HTTP 400',
+            failures: 1,
+            backedOff: false,
+          },
+        ],
+      }),
+    );
+
+    await expect(runSyncOnce(context, ['--once'])).resolves.toBe(syncExitCodes.partial);
+    expect(output()).toBe(
+      [
+        'Sync partial: 2 created, 0 updated, 0 deleted, 0 skipped',
+        "x delete 'ptero-alloc-103' (node 1) failed: HTTP 400",
+        '',
+      ].join('\n'),
+    );
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+
+  it('prints the summary as JSON', async () => {
+    const output = captureOutput();
+    const { context } = createContext();
+
+    await expect(runSyncOnce(context, ['--once', '--json'])).resolves.toBe(syncExitCodes.noop);
+    expect(JSON.parse(output())).toMatchObject({ result: 'success', created: 0 });
+  });
+});
+
+describe('runListRules', () => {
+  it('lists managed rules before unmanaged ones', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext();
+    syncService.listRules.mockResolvedValue([
+      {
+        rule: ruleFactory({ id: 'rule-manual', name: 'SSH', externalPort: '22' }),
+        nodeId: null,
+        allocationId: null,
+      },
+      { rule: ruleFactory({ enabled: false }), nodeId: 1, allocationId: 101 },
+      {
+        rule: ruleFactory({ id: 'rule-odd', name: 'ptero-alloc-odd', wanIp: '203.0.113.5' }),
+        nodeId: 1,
+        allocationId: null,
+      },
+    ]);
+
+    await expect(runListRules(context, [])).resolves.toBe(0);
+    expect(output().split('\n')).toEqual([
+      'Rules: 2 managed, 1 unmanaged',
+      "'ptero-alloc-101' (node 1, allocation 101, rule rule-101) 25565 -> 10.0.1.10:25565 tcp_udp, disabled",
+      "'ptero-alloc-odd' (node 1, allocation unreadable, rule rule-odd) 203.0.113.5:25565 -> 10.0.1.10:25565 tcp_udp",
+      "'SSH' (unmanaged, rule rule-manual) 22 -> 10.0.1.10:25565 tcp_udp",
+      '',
+    ]);
+  });
+
+  it('marks each rule as managed or not in JSON output', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext();
+    syncService.listRules.mockResolvedValue([
+      { rule: ruleFactory(), nodeId: 1, allocationId: 101 },
+    ]);
+
+    await runListRules(context, ['--json']);
+    expect(JSON.parse(output())).toEqual([
+      expect.objectContaining({ id: 'rule-101', managed: true, nodeId: 1, allocationId: 101 }),
+    ]);
+  });
+});
+
+describe('runListAllocations', () => {
+  it('lists allocations per node with their server', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext();
+    syncService.listAllocations.mockResolvedValue([
+      {
+        nodeId: 1,
+        allocations: [
+          {
+            id: 101,
+            ip: '198.51.100.10',
+            ipAlias: 'mc.example.com',
+            port: 25565,
+            notes: 'lobby',
+            isDefault: true,
+            assigned: true,
+            server: { id: 7, uuid: 'uuid', identifier: '1a2b3c4d', name: 'Lobby', suspended: true },
+          },
+          {
+            id: 102,
+            ip: '198.51.100.10',
+            ipAlias: null,
+            port: 25566,
+            notes: null,
+            isDefault: false,
+            assigned: false,
+            server: null,
+          },
+        ],
+      },
+    ]);
+
+    await expect(runListAllocations(context, [])).resolves.toBe(0);
+    expect(output().split('\n')).toEqual([
+      'Allocations: 2 on node(s) 1',
+      "198.51.100.10:25565 (alias mc.example.com) (node 1, allocation 101, server 'Lobby' (suspended), notes 'lobby')",
+      '198.51.100.10:25566 (node 1, allocation 102, unassigned)',
+      '',
+    ]);
+  });
+});
+
+describe('runPrune', () => {
+  const managedRules = [
+    { rule: ruleFactory(), nodeId: 1, allocationId: 101 },
+    {
+      rule: ruleFactory({ id: 'rule-102', name: 'ptero-alloc-102' }),
+      nodeId: 1,
+      allocationId: 102,
+    },
+  ];
+  const rules = [
+    ...managedRules,
+    { rule: ruleFactory({ id: 'rule-manual', name: 'SSH' }), nodeId: null, allocationId: null },
+  ];
+
+  it('only lists the managed rules without --yes', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext();
+    syncService.listRules.mockResolvedValue(rules);
+
+    await expect(runPrune(context, [])).resolves.toBe(0);
+    expect(syncService.prune).not.toHaveBeenCalled();
+    expect(output()).toContain('Managed rules to delete: 2');
+    expect(output()).not.toContain("'SSH'");
+    expect(output()).toContain('re-run with --yes');
+  });
+
+  it('never deletes in dry-run mode', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext({ dryRun: true });
+    syncService.listRules.mockResolvedValue(rules);
+
+    await expect(runPrune(context, ['--yes'])).resolves.toBe(0);
+    expect(syncService.prune).not.toHaveBeenCalled();
+    expect(output()).toContain('DRY_RUN is set; nothing was deleted.');
+  });
+
+  it('deletes the managed rules with --yes and reports failures', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext();
+    syncService.listRules.mockResolvedValue(rules);
+    syncService.prune.mockResolvedValue([{ ruleName: 'ptero-alloc-102', error: 'rule is locked' }]);
+
+    await expect(runPrune(context, ['--yes'])).resolves.toBe(1);
+    expect(syncService.prune).toHaveBeenCalledWith(managedRules);
+    expect(output()).toContain('Deleted 1 of 2 managed rule(s).');
+    expect(output()).toContain("x delete 'ptero-alloc-102' failed: rule is locked");
+  });
+});
+
+describe('runCheck', () => {
+  it('reports every check and succeeds when all pass', async () => {
+    const output = captureOutput();
+    const { context, syncService } = createContext({ supportsPowerState: false });
+    syncService.listAllocations.mockResolvedValue([{ nodeId: 1, allocations: [{}, {}] }]);
+
+    await expect(runCheck(context)).resolves.toBe(0);
+    expect(output().split('\n')).toEqual([
+      'ok   Pterodactyl application API: 1 node(s) visible',
+      'ok   Pterodactyl allocations: 2 allocation(s) on node(s) 1',
+      'skip Pterodactyl client API: PTERODACTYL_CLIENT_API_KEY is not set',
+      'ok   Router (udm): 1 port forward(s) readable',
+      '',
+    ]);
+  });
+
+  it('keeps checking after a failure and hints at permissions', async () => {
+    const output = captureOutput();
+    const { context, pterodactylClient, router } = createContext();
+    const forbidden = new AxiosError('Request failed with status code 403');
+    forbidden.response = { status: 403 } as AxiosResponse;
+    pterodactylClient.verifyClientAccess.mockRejectedValue(forbidden);
+    router.listPortForwards.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(runCheck(context)).resolves.toBe(1);
+    expect(output()).toContain(
+      'FAIL Pterodactyl client API: Request failed with status code 403 (check the credentials and the permissions of the key)',
+    );
+    expect(output()).toContain('FAIL Router (udm): connect ECONNREFUSED');
+  });
+});
@@ -0,0 +1,89 @@
+import { getEventListeners } from 'node:events';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { RateLimiter, runWithConcurrency } from '../concurrency';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runWithConcurrency', () => {
+  it('starts items in order and never runs more than the limit at once', async () => {
+    const started: number[] = [];
+    let running = 0;
+    let peak = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      started.push(item);
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, item % 3));
+      running -= 1;
+    });
+
+    expect(started).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(peak).toBe(3);
+  });
+
+  it('runs one item at a time with a limit of one and accepts empty lists', async () => {
+    const order: string[] = [];
+    await runWithConcurrency(['a', 'b'], 1, async (item) => {
+      order.push(`start ${item}`);
+      await Promise.resolve();
+      order.push(`end ${item}`);
+    });
+    await runWithConcurrency([], 4, async () => {
+      order.push('never');
+    });
+
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('spaces out callers evenly', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new RateLimiter(4);
+    const acquiredAt: number[] = [];
+
+    const waiting = [1, 2, 3].map(async () => {
+      await limiter.acquire();
+      acquiredAt.push(Date.now());
+    });
+    await vi.runAllTimersAsync();
+    await Promise.all(waiting);
+
+    expect(acquiredAt).toEqual([0, 250, 500]);
+
+    vi.setSystemTime(2_000);
+    await limiter.acquire();
+    expect(Date.now()).toBe(2_000);
+  });
+
+  it('stops waiting once the signal is aborted', async () => {
+    const limiter = new RateLimiter(0.001);
+    const controller = new AbortController();
+    await limiter.acquire(controller.signal);
+
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(/aborted/i);
+  });
+
+  it('leaves no abort listener behind once a wait is over', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(10);
+    const { signal } = new AbortController();
+
+    for (let i = 0; i < 15; i += 1) {
+      const waiting = limiter.acquire(signal);
+      await vi.runAllTimersAsync();
+      await waiting;
+    }
+
+    expect(getEventListeners(signal, 'abort')).toHaveLength(0);
+  });
+});
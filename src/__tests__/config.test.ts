@@ -30,7 +30,47 @@ const loadConfig = async () => {
   return import('../config');
 };
 
-const managedKeys = [...Object.keys(baseEnv), 'TARGET_IP_MAP'];
+const managedKeys = [
+  ...Object.keys(baseEnv),
+  'TARGET_IP_MAP',
+  'PTERODACTYL_NODE_IDS',
+  'PTERODACTYL_NODE_SETTINGS',
+  'DRY_RUN',
+  'MERGE_PORT_RANGES',
+  'ONLY_ASSIGNED_ALLOCATIONS',
+  'PTERODACTYL_CLIENT_API_KEY',
+  'PORT_FORWARD_NAME_TEMPLATE',
+  'MIGRATE_NAME_PREFIXES',
+  'ADOPT_UNMANAGED_RULES',
+  'MALFORMED_RULE_POLICY',
+  'FAILED_CHANGE_MAX_BACKOFF_CYCLES',
+  'APPLY_CONCURRENCY',
+  'APPLY_RATE_LIMIT',
+  'SHUTDOWN_TIMEOUT_SECONDS',
+  'DELETION_GRACE_CYCLES',
+  'DELETION_GRACE_MINUTES',
+  'DISABLE_PENDING_DELETIONS',
+  'PENDING_DELETIONS_PATH',
+  'HTTP_MAX_READ_RETRIES',
+  'HTTP_MAX_WRITE_RETRIES',
+  'HTTP_RETRY_BASE_DELAY_MS',
+  'HTTP_RETRY_MAX_DELAY_MS',
+  'MAX_DELETIONS_PER_CYCLE',
+  'MAX_DELETION_PERCENT',
+  'ALLOW_EMPTY_ALLOCATIONS',
+  'FORCE_DELETIONS',
+  'HTTP_PORT',
+  'HTTP_HOST',
+  'HEALTH_MAX_MISSED_INTERVALS',
+  'WEBHOOK_SECRET',
+  'AUDIT_LOG_PATH',
+  'UDM_API_KEY',
+  'UDM_CONTROLLER_TYPE',
+  'ROUTER_BACKEND',
+  'NFT_TABLE',
+  'IPTABLES_CHAIN',
+  'NETFILTER_STATE_PATH',
+];
 
 const setEnv = (overrides: Record<string, string | undefined>) => {
   const next: Record<string, string> = { ...ORIGINAL_ENV } as Record<string, string>;
@@ -53,6 +93,15 @@ afterEach(() => {
 });
 
 describe('config module', () => {
+  it('loads the .env file without printing to stdout', async () => {
+    setEnv(baseEnv);
+
+    await loadConfig();
+
+    const dotenv = await import('dotenv');
+    expect(dotenv.default.config).toHaveBeenCalledWith({ quiet: true });
+  });
+
   it('parses a valid configuration', async () => {
     setEnv({ ...baseEnv, TARGET_IP_MAP: undefined });
 
@@ -61,6 +110,29 @@ describe('config module', () => {
     expect(appConfig.pterodactyl.url).toBe('https://panel.example.com');
     expect(appConfig.udm.defaultTargetIp).toBe('10.0.1.10');
     expect(appConfig.udm.protocol).toBe('tcp_udp');
+    expect(appConfig.sync.dryRun).toBe(false);
+  });
+
+  it('parses boolean flags from common truthy spellings', async () => {
+    setEnv({ ...baseEnv, DRY_RUN: 'Yes' });
+    expect((await loadConfig()).appConfig.sync.dryRun).toBe(true);
+
+    setEnv({ ...baseEnv, DRY_RUN: 'false' });
+    expect((await loadConfig()).appConfig.sync.dryRun).toBe(false);
+
+    setEnv({ ...baseEnv, MERGE_PORT_RANGES: '1' });
+    expect((await loadConfig()).appConfig.sync.mergePortRanges).toBe(true);
+
+    setEnv({ ...baseEnv, ONLY_ASSIGNED_ALLOCATIONS: 'on' });
+    expect((await loadConfig()).appConfig.sync.onlyAssignedAllocations).toBe(true);
+  });
+
+  it('reads an optional Pterodactyl Client API key', async () => {
+    setEnv({ ...baseEnv, PTERODACTYL_CLIENT_API_KEY: '  ptlc_key ' });
+    expect((await loadConfig()).appConfig.pterodactyl.clientApiKey).toBe('ptlc_key');
+
+    setEnv({ ...baseEnv, PTERODACTYL_CLIENT_API_KEY: ' ' });
+    expect((await loadConfig()).appConfig.pterodactyl.clientApiKey).toBeUndefined();
   });
 
   it('accepts a target IP map instead of a default', async () => {
@@ -97,4 +169,339 @@ describe('config module', () => {
 
     await expect(loadConfig()).rejects.toThrow(/Failed to parse TARGET_IP_MAP/i);
   });
+
+  it('keeps PTERODACTYL_NODE_ID as a single-node selection', async () => {
+    setEnv({ ...baseEnv });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.pterodactyl.nodes).toEqual([1]);
+    expect(appConfig.pterodactyl.nodeSettings).toEqual({});
+  });
+
+  it('parses a list of node ids and per-node settings', async () => {
+    setEnv({
+      ...baseEnv,
+      PTERODACTYL_NODE_ID: undefined,
+      PTERODACTYL_NODE_IDS: '1, 2,2,5',
+      PTERODACTYL_NODE_SETTINGS: JSON.stringify({
+        '5': { namePrefix: 'eu-', targetIpDefault: '10.0.5.10' },
+      }),
+    });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.pterodactyl.nodes).toEqual([1, 2, 5]);
+    expect(appConfig.pterodactyl.nodeSettings['5']).toEqual({
+      namePrefix: 'eu-',
+      targetIpDefault: '10.0.5.10',
+    });
+  });
+
+  it('accepts all nodes', async () => {
+    setEnv({ ...baseEnv, PTERODACTYL_NODE_ID: undefined, PTERODACTYL_NODE_IDS: 'all' });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.pterodactyl.nodes).toBe('all');
+  });
+
+  it('throws when no node is selected', async () => {
+    setEnv({ ...baseEnv, PTERODACTYL_NODE_ID: undefined });
+
+    await expect(loadConfig()).rejects.toThrow(/PTERODACTYL_NODE_IDS/);
+  });
+
+  it('throws when a node id is not numeric', async () => {
+    setEnv({ ...baseEnv, PTERODACTYL_NODE_IDS: '1,wings-2' });
+
+    await expect(loadConfig()).rejects.toThrow(/entry 'wings-2' must be a non-negative integer/);
+  });
+
+  it('throws when node settings are malformed', async () => {
+    setEnv({
+      ...baseEnv,
+      PTERODACTYL_NODE_SETTINGS: JSON.stringify({ '1': { prefix: 'typo-' } }),
+    });
+
+    await expect(loadConfig()).rejects.toThrow(/Invalid PTERODACTYL_NODE_SETTINGS/);
+  });
+
+  it('allows per-node targets to replace the global target', async () => {
+    setEnv({
+      ...baseEnv,
+      TARGET_IP_DEFAULT: undefined,
+      PTERODACTYL_NODE_IDS: '1,2',
+      PTERODACTYL_NODE_SETTINGS: JSON.stringify({
+        '1': { targetIpDefault: '10.0.1.10' },
+        '2': { targetIpMap: { '198.51.100.20': '10.0.2.20' } },
+      }),
+    });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.udm.defaultTargetIp).toBeUndefined();
+    expect(appConfig.pterodactyl.nodes).toEqual([1, 2]);
+  });
+
+  it('requires a global target when some nodes lack one', async () => {
+    setEnv({
+      ...baseEnv,
+      TARGET_IP_DEFAULT: undefined,
+      PTERODACTYL_NODE_IDS: '1,2',
+      PTERODACTYL_NODE_SETTINGS: JSON.stringify({ '1': { targetIpDefault: '10.0.1.10' } }),
+    });
+
+    await expect(loadConfig()).rejects.toThrow(/must define either TARGET_IP_DEFAULT/i);
+  });
+
+  it('parses and validates the rule name template', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.udm.nameTemplate).toBe('{prefix}{allocationId}');
+
+    setEnv({
+      ...baseEnv,
+      PORT_FORWARD_NAME_TEMPLATE: ' {prefix}{allocationId} {serverName} ({node}) ',
+    });
+    expect((await loadConfig()).appConfig.udm.nameTemplate).toBe(
+      '{prefix}{allocationId} {serverName} ({node})',
+    );
+
+    setEnv({ ...baseEnv, PORT_FORWARD_NAME_TEMPLATE: '{prefix}{allocationId} {owner}' });
+    await expect(loadConfig()).rejects.toThrow(/unknown placeholder\(s\) \{owner\}/);
+
+    for (const template of [
+      '{serverName} {prefix}{allocationId}',
+      '{prefix}{allocationId}-{port}',
+      '{prefix}{allocationId}_{serverName}',
+    ]) {
+      setEnv({ ...baseEnv, PORT_FORWARD_NAME_TEMPLATE: template });
+      await expect(loadConfig()).rejects.toThrow(/must start with \{prefix\}\{allocationId\}/);
+    }
+  });
+
+  it('parses migration prefixes and the adoption flag', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.sync).toMatchObject({
+      migratePrefixes: [],
+      adoptUnmanagedRules: false,
+    });
+
+    setEnv({
+      ...baseEnv,
+      MIGRATE_NAME_PREFIXES: ' old-, ,legacy_ ',
+      ADOPT_UNMANAGED_RULES: 'true',
+    });
+    expect((await loadConfig()).appConfig.sync).toMatchObject({
+      migratePrefixes: ['old-', 'legacy_'],
+      adoptUnmanagedRules: true,
+    });
+  });
+
+  it('parses the malformed rule policy', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.sync.malformedRulePolicy).toBe('warn');
+
+    setEnv({ ...baseEnv, MALFORMED_RULE_POLICY: 'disable' });
+    expect((await loadConfig()).appConfig.sync.malformedRulePolicy).toBe('disable');
+
+    setEnv({ ...baseEnv, MALFORMED_RULE_POLICY: 'ignore' });
+    await expect(loadConfig()).rejects.toThrow(/MALFORMED_RULE_POLICY/);
+  });
+
+  it('parses deletion guard settings', async () => {
+    setEnv({
+      ...baseEnv,
+      MAX_DELETIONS_PER_CYCLE: '5',
+      MAX_DELETION_PERCENT: '20',
+      ALLOW_EMPTY_ALLOCATIONS: 'true',
+    });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.sync.deletionGuard).toEqual({
+      maxDeletions: 5,
+      maxDeletionPercent: 20,
+      allowEmptyAllocations: true,
+      override: false,
+    });
+  });
+
+  it('parses deletion grace period settings', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.sync.deletionGrace).toEqual({
+      cycles: 0,
+      minutes: 0,
+      disableRules: false,
+      statePath: 'data/pending-deletions.json',
+    });
+
+    setEnv({
+      ...baseEnv,
+      DELETION_GRACE_CYCLES: '3',
+      DELETION_GRACE_MINUTES: '2.5',
+      DISABLE_PENDING_DELETIONS: 'yes',
+      PENDING_DELETIONS_PATH: ' /var/lib/sync/pending.json ',
+    });
+    expect((await loadConfig()).appConfig.sync.deletionGrace).toEqual({
+      cycles: 3,
+      minutes: 2.5,
+      disableRules: true,
+      statePath: '/var/lib/sync/pending.json',
+    });
+
+    setEnv({ ...baseEnv, DELETION_GRACE_CYCLES: '-1' });
+    await expect(loadConfig()).rejects.toThrow(/DELETION_GRACE_CYCLES must be >= 0/);
+  });
+
+  it('parses retry settings', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.retry).toEqual({
+      maxReadRetries: 4,
+      maxWriteRetries: 2,
+      baseDelayMs: 500,
+      maxDelayMs: 30_000,
+    });
+
+    setEnv({
+      ...baseEnv,
+      HTTP_MAX_READ_RETRIES: '0',
+      HTTP_MAX_WRITE_RETRIES: '5',
+      HTTP_RETRY_BASE_DELAY_MS: '250',
+      HTTP_RETRY_MAX_DELAY_MS: '10000',
+    });
+    expect((await loadConfig()).appConfig.retry).toEqual({
+      maxReadRetries: 0,
+      maxWriteRetries: 5,
+      baseDelayMs: 250,
+      maxDelayMs: 10_000,
+    });
+
+    setEnv({ ...baseEnv, HTTP_RETRY_BASE_DELAY_MS: '0' });
+    await expect(loadConfig()).rejects.toThrow(
+      /HTTP_RETRY_BASE_DELAY_MS must be greater than zero/,
+    );
+  });
+
+  it('parses the failed change backoff limit', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.sync.maxChangeBackoffCycles).toBe(16);
+
+    setEnv({ ...baseEnv, FAILED_CHANGE_MAX_BACKOFF_CYCLES: '0' });
+    expect((await loadConfig()).appConfig.sync.maxChangeBackoffCycles).toBe(0);
+
+    setEnv({ ...baseEnv, FAILED_CHANGE_MAX_BACKOFF_CYCLES: '-2' });
+    await expect(loadConfig()).rejects.toThrow(/FAILED_CHANGE_MAX_BACKOFF_CYCLES must be >= 0/);
+  });
+
+  it('parses change application limits', async () => {
+    setEnv(baseEnv);
+    const defaults = (await loadConfig()).appConfig.sync;
+    expect(defaults.applyConcurrency).toBe(4);
+    expect(defaults.applyRateLimit).toBeUndefined();
+
+    setEnv({ ...baseEnv, APPLY_CONCURRENCY: '8', APPLY_RATE_LIMIT: '2.5' });
+    const configured = (await loadConfig()).appConfig.sync;
+    expect(configured.applyConcurrency).toBe(8);
+    expect(configured.applyRateLimit).toBe(2.5);
+
+    setEnv({ ...baseEnv, APPLY_CONCURRENCY: '0' });
+    await expect(loadConfig()).rejects.toThrow(/APPLY_CONCURRENCY must be greater than zero/);
+  });
+
+  it('parses the shutdown timeout in seconds', async () => {
+    setEnv(baseEnv);
+    expect((await loadConfig()).appConfig.sync.shutdownTimeoutMs).toBe(30_000);
+
+    setEnv({ ...baseEnv, SHUTDOWN_TIMEOUT_SECONDS: '5' });
+    expect((await loadConfig()).appConfig.sync.shutdownTimeoutMs).toBe(5_000);
+  });
+
+  it('rejects deletion percentages above 100', async () => {
+    setEnv({ ...baseEnv, MAX_DELETION_PERCENT: '150' });
+
+    await expect(loadConfig()).rejects.toThrow(/MAX_DELETION_PERCENT must be between 0 and 100/);
+  });
+
+  it('leaves the HTTP server disabled unless a port is set', async () => {
+    setEnv({ ...baseEnv });
+    expect((await loadConfig()).appConfig.http).toEqual({
+      port: undefined,
+      host: '0.0.0.0',
+      healthMaxMissedIntervals: 3,
+      webhookSecret: undefined,
+    });
+
+    setEnv({ ...baseEnv, HTTP_PORT: '8080', HEALTH_MAX_MISSED_INTERVALS: '5' });
+    expect((await loadConfig()).appConfig.http).toMatchObject({
+      port: 8080,
+      healthMaxMissedIntervals: 5,
+    });
+  });
+
+  it('enables the audit journal only when a path is set', async () => {
+    setEnv({ ...baseEnv });
+    expect((await loadConfig()).appConfig.audit.logPath).toBeUndefined();
+
+    setEnv({ ...baseEnv, AUDIT_LOG_PATH: ' /data/audit.jsonl ' });
+    expect((await loadConfig()).appConfig.audit.logPath).toBe('/data/audit.jsonl');
+  });
+
+  it('accepts an API key instead of UDM credentials', async () => {
+    setEnv({ ...baseEnv, UDM_USERNAME: undefined, UDM_PASSWORD: undefined, UDM_API_KEY: 'key' });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.udm).toMatchObject({ apiKey: 'key', username: '', password: '' });
+  });
+
+  it('requires either an API key or a username and password', async () => {
+    setEnv({ ...baseEnv, UDM_PASSWORD: undefined });
+
+    await expect(loadConfig()).rejects.toThrow(
+      'You must define either UDM_API_KEY or both UDM_USERNAME and UDM_PASSWORD.',
+    );
+  });
+
+  it('selects the controller type and rejects API keys on standalone controllers', async () => {
+    setEnv({ ...baseEnv });
+    expect((await loadConfig()).appConfig.udm.controllerType).toBe('auto');
+
+    setEnv({ ...baseEnv, UDM_CONTROLLER_TYPE: 'standalone' });
+    expect((await loadConfig()).appConfig.udm.controllerType).toBe('standalone');
+
+    setEnv({ ...baseEnv, UDM_CONTROLLER_TYPE: 'standalone', UDM_API_KEY: 'key' });
+    await expect(loadConfig()).rejects.toThrow(/UDM_API_KEY is only supported on UniFi OS/);
+  });
+
+  it('selects a netfilter backend without UDM settings', async () => {
+    setEnv({
+      ...baseEnv,
+      ROUTER_BACKEND: 'nftables',
+      UDM_URL: undefined,
+      UDM_USERNAME: undefined,
+      UDM_PASSWORD: undefined,
+      NETFILTER_STATE_PATH: '/data/forwards.json',
+    });
+
+    const { appConfig } = await loadConfig();
+
+    expect(appConfig.router).toEqual({
+      backend: 'nftables',
+      nftTable: 'ptero_udm_sync',
+      iptablesChain: 'PTERO_UDM_SYNC',
+      statePath: '/data/forwards.json',
+    });
+    expect(appConfig.udm.url).toBe('');
+  });
+
+  it('requires UDM_URL for the UDM backend and valid netfilter names', async () => {
+    setEnv({ ...baseEnv, UDM_URL: undefined });
+    await expect(loadConfig()).rejects.toThrow(
+      'You must define UDM_URL when ROUTER_BACKEND is udm.',
+    );
+
+    setEnv({ ...baseEnv, ROUTER_BACKEND: 'iptables', IPTABLES_CHAIN: 'bad chain' });
+    await expect(loadConfig()).rejects.toThrow(/IPTABLES_CHAIN must be a valid chain name/);
+  });
 });
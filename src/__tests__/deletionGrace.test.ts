@@ -0,0 +1,106 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  hasGracePeriodElapsed,
+  isGracePeriodEnabled,
+  PendingDeletionStore,
+} from '../deletionGrace';
+import type { DeletionGraceOptions, PendingDeletion } from '../deletionGrace';
+
+const options = (overrides: Partial<DeletionGraceOptions> = {}): DeletionGraceOptions => ({
+  cycles: 0,
+  minutes: 0,
+  disableRules: false,
+  statePath: 'pending.json',
+  ...overrides,
+});
+
+const pendingFactory = (overrides: Partial<PendingDeletion> = {}): PendingDeletion => ({
+  nodeId: 1,
+  allocationId: 101,
+  ruleId: 'rule-101',
+  ruleName: 'ptero-alloc-101',
+  missingSince: '2026-05-01T12:00:00.000Z',
+  missingCycles: 1,
+  ...overrides,
+});
+
+describe('hasGracePeriodElapsed', () => {
+  const now = new Date('2026-05-01T12:30:00.000Z');
+
+  it('is disabled unless cycles or minutes are set', () => {
+    expect(isGracePeriodEnabled(options())).toBe(false);
+    expect(isGracePeriodEnabled(options({ cycles: 1 }))).toBe(true);
+    expect(isGracePeriodEnabled(options({ minutes: 0.5 }))).toBe(true);
+  });
+
+  it('waits until a rule was missing for more than the configured cycles', () => {
+    expect(hasGracePeriodElapsed(options({ cycles: 2 }), pendingFactory(), now)).toBe(false);
+    expect(
+      hasGracePeriodElapsed(options({ cycles: 2 }), pendingFactory({ missingCycles: 2 }), now),
+    ).toBe(false);
+    expect(
+      hasGracePeriodElapsed(options({ cycles: 2 }), pendingFactory({ missingCycles: 3 }), now),
+    ).toBe(true);
+  });
+
+  it('requires both the cycles and the minutes when both are set', () => {
+    const grace = options({ cycles: 1, minutes: 30 });
+
+    expect(hasGracePeriodElapsed(grace, pendingFactory({ missingCycles: 5 }), now)).toBe(true);
+    expect(
+      hasGracePeriodElapsed(
+        grace,
+        pendingFactory({ missingCycles: 5, missingSince: '2026-05-01T12:00:01.000Z' }),
+        now,
+      ),
+    ).toBe(false);
+    expect(hasGracePeriodElapsed(grace, pendingFactory({ missingCycles: 1 }), now)).toBe(false);
+  });
+});
+
+describe('PendingDeletionStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pending-deletions-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty and reads back what it saved', async () => {
+    const path = join(dir, 'nested', 'pending.json');
+    const store = new PendingDeletionStore(path);
+
+    expect(await store.load()).toEqual(new Map());
+
+    await store.save(new Map([['rule-101', pendingFactory()]]));
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual([pendingFactory()]);
+    expect(await new PendingDeletionStore(path).load()).toEqual(
+      new Map([['rule-101', pendingFactory()]]),
+    );
+  });
+
+  it('hands out copies so callers cannot change the cached state', async () => {
+    const store = new PendingDeletionStore(join(dir, 'pending.json'));
+
+    (await store.load()).set('rule-101', pendingFactory());
+
+    expect((await store.load()).size).toBe(0);
+  });
+
+  it('rejects unreadable state files', async () => {
+    const path = join(dir, 'pending.json');
+    await writeFile(path, '{not json', 'utf8');
+
+    await expect(new PendingDeletionStore(path).load()).rejects.toThrow(
+      `Unable to read pending deletions from ${path}`,
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { evaluateDeletionGuard } from '../deletionGuard';
+
+const defaults = { allowEmptyAllocations: false, override: false };
+
+describe('evaluateDeletionGuard', () => {
+  it('allows change sets without deletions', () => {
+    expect(
+      evaluateDeletionGuard(defaults, {
+        allocationCount: 0,
+        managedRuleCount: 0,
+        deletionCount: 0,
+      }),
+    ).toBeNull();
+  });
+
+  it('blocks deletions caused by an empty allocation list', () => {
+    expect(
+      evaluateDeletionGuard(defaults, {
+        allocationCount: 0,
+        managedRuleCount: 3,
+        deletionCount: 3,
+      }),
+    ).toMatch(/returned no allocations but 3 managed rule\(s\) would be deleted/);
+  });
+
+  it('accepts an empty allocation list when explicitly allowed', () => {
+    expect(
+      evaluateDeletionGuard(
+        { ...defaults, allowEmptyAllocations: true },
+        { allocationCount: 0, managedRuleCount: 3, deletionCount: 3 },
+      ),
+    ).toBeNull();
+  });
+
+  it('enforces the maximum deletion count', () => {
+    const options = { ...defaults, maxDeletions: 2 };
+
+    expect(
+      evaluateDeletionGuard(options, { allocationCount: 5, managedRuleCount: 8, deletionCount: 2 }),
+    ).toBeNull();
+    expect(
+      evaluateDeletionGuard(options, { allocationCount: 5, managedRuleCount: 8, deletionCount: 3 }),
+    ).toBe('3 deletion(s) exceed MAX_DELETIONS_PER_CYCLE=2');
+  });
+
+  it('enforces the maximum deletion percentage', () => {
+    const options = { ...defaults, maxDeletionPercent: 25 };
+
+    expect(
+      evaluateDeletionGuard(options, {
+        allocationCount: 9,
+        managedRuleCount: 12,
+        deletionCount: 3,
+      }),
+    ).toBeNull();
+    expect(
+      evaluateDeletionGuard(options, {
+        allocationCount: 8,
+        managedRuleCount: 12,
+        deletionCount: 4,
+      }),
+    ).toBe('4 of 12 managed rule(s) (33.3%) would be deleted, exceeding MAX_DELETION_PERCENT=25');
+  });
+});
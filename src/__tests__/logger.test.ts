@@ -7,6 +7,11 @@ const importLogger = async () => {
   return import('../logger');
 };
 
+const silence = (method: 'debug' | 'log' | 'warn' | 'error') =>
+  vi.spyOn(console, method).mockImplementation(() => {
+    /* noop */
+  });
+
 afterEach(() => {
   process.env = { ...ORIGINAL_ENV } as NodeJS.ProcessEnv;
   vi.resetModules();
@@ -14,27 +19,127 @@ afterEach(() => {
 });
 
 describe('logger', () => {
-  it('does not output when DEBUG is falsy', async () => {
+  it('does not output debug entries at the default level', async () => {
+    delete process.env.LOG_LEVEL;
     process.env.DEBUG = '';
-    const spy = vi.spyOn(console, 'debug').mockImplementation(() => {
-      /* noop */
-    });
+    const spy = silence('debug');
 
-    const { logDebug } = await importLogger();
+    const { createLogger, getLogLevel } = await importLogger();
 
-    logDebug('message');
+    createLogger('test').debug('message');
+    expect(getLogLevel()).toBe('info');
     expect(spy).not.toHaveBeenCalled();
   });
 
-  it('prints debug statements when DEBUG is true', async () => {
+  it('falls back to DEBUG=true for debug output', async () => {
+    delete process.env.LOG_LEVEL;
     process.env.DEBUG = 'true';
-    const spy = vi.spyOn(console, 'debug').mockImplementation(() => {
-      /* noop */
-    });
+    const spy = silence('debug');
 
-    const { logDebug } = await importLogger();
+    const { createLogger } = await importLogger();
 
-    logDebug('message', { payload: 1 });
+    createLogger('test').debug('message', { payload: 1 });
     expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy).toHaveBeenCalledWith(expect.stringMatching(/DEBUG {1}\[test\] message payload=1$/));
+  });
+
+  it('filters entries below LOG_LEVEL', async () => {
+    process.env.LOG_LEVEL = 'warn';
+    process.env.DEBUG = 'true';
+    const logSpy = silence('log');
+    const warnSpy = silence('warn');
+    const errorSpy = silence('error');
+
+    const { createLogger, isLevelEnabled } = await importLogger();
+    const logger = createLogger('test');
+
+    logger.info('hidden');
+    logger.warn('shown');
+    logger.error('shown too');
+
+    expect(isLevelEnabled('info')).toBe(false);
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes JSON lines when LOG_FORMAT=json', async () => {
+    process.env.LOG_FORMAT = 'json';
+    process.env.LOG_LEVEL = 'info';
+    const spy = silence('log');
+
+    const { createLogger } = await importLogger();
+
+    createLogger('sync').info('Cycle completed', { durationMs: 42 });
+
+    const entry = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(entry).toEqual({
+      time: expect.any(String),
+      level: 'info',
+      component: 'sync',
+      msg: 'Cycle completed',
+      durationMs: 42,
+    });
+  });
+
+  it('redacts sensitive fields and registered secrets', async () => {
+    process.env.LOG_FORMAT = 'json';
+    process.env.LOG_LEVEL = 'info';
+    const spy = silence('log');
+
+    const { createLogger, registerSecrets } = await importLogger();
+    registerSecrets('super-secret-key', 'abc', undefined);
+
+    createLogger('udm').info('Using key super-secret-key', {
+      headers: { Authorization: 'Bearer xyz', 'X-API-KEY': 'k' },
+      password: 'hunter2',
+      url: 'https://example.com/?key=super-secret-key',
+      note: 'abc is too short to mask',
+      error: new Error('failed with super-secret-key'),
+    });
+
+    const entry = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(entry.msg).toBe('Using key [redacted]');
+    expect(entry.headers).toEqual({ Authorization: '[redacted]', 'X-API-KEY': '[redacted]' });
+    expect(entry.password).toBe('[redacted]');
+    expect(entry.url).toBe('https://example.com/?key=[redacted]');
+    expect(entry.note).toBe('abc is too short to mask');
+    expect(entry.error).toEqual({ name: 'Error', message: 'failed with [redacted]' });
+  });
+
+  it('attaches context and child bindings to entries', async () => {
+    process.env.LOG_FORMAT = 'json';
+    process.env.LOG_LEVEL = 'info';
+    const spy = silence('log');
+
+    const { createLogger, withLogContext } = await importLogger();
+    const logger = createLogger('sync').child({ nodeId: 1 });
+
+    await withLogContext({ cycleId: 'abc123' }, async () => {
+      await Promise.resolve();
+      logger.info('inside');
+    });
+    logger.info('outside');
+
+    const [inside, outside] = spy.mock.calls.map(([line]) => JSON.parse(line as string));
+    expect(inside).toMatchObject({ cycleId: 'abc123', nodeId: 1 });
+    expect(outside.cycleId).toBeUndefined();
+    expect(outside.nodeId).toBe(1);
+  });
+
+  it('sends every entry to stderr when configured', async () => {
+    process.env.LOG_LEVEL = 'info';
+    const logSpy = silence('log');
+    const errorSpy = silence('error');
+
+    const { configureLogger, createLogger } = await importLogger();
+    configureLogger({ stream: 'stderr' });
+
+    createLogger('bootstrap').info('hello', { note: 'two words' });
+
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[bootstrap] hello note="two words"'),
+    );
   });
 });
@@ -0,0 +1,240 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { NetfilterDriver, renderIptables, renderNftables } from '../netfilterDriver';
+import type { PortForwardRequest } from '../routerDriver';
+
+const requestFactory = (overrides: Partial<PortForwardRequest> = {}): PortForwardRequest => ({
+  name: 'ptero-alloc-101',
+  enabled: true,
+  externalPort: 25565,
+  internalPort: 25565,
+  internalIp: '10.0.1.10',
+  protocol: 'tcp_udp',
+  source: 'any',
+  destination: 'any',
+  wanIp: 'any',
+  ...overrides,
+});
+
+describe('netfilter rendering', () => {
+  const forwards = [
+    { ...requestFactory(), id: 'a' },
+    {
+      ...requestFactory({
+        name: 'ptero-alloc-102 "quoted"',
+        externalPort: 27015,
+        internalPort: 27016,
+        protocol: 'udp' as const,
+        source: '192.0.2.0/24',
+        wanIp: '198.51.100.10',
+      }),
+      id: 'b',
+    },
+    { ...requestFactory({ name: 'disabled', enabled: false }), id: 'c' },
+  ];
+
+  it('renders an nftables table that replaces itself atomically', () => {
+    expect(renderNftables('ptero_udm_sync', forwards)).toBe(
+      [
+        'table ip ptero_udm_sync {}',
+        'delete table ip ptero_udm_sync',
+        'table ip ptero_udm_sync {',
+        '  chain prerouting {',
+        '    type nat hook prerouting priority dstnat; policy accept;',
+        '    meta l4proto { tcp, udp } th dport 25565 dnat to 10.0.1.10:25565 comment "ptero-alloc-101"',
+        '    ip saddr 192.0.2.0/24 ip daddr 198.51.100.10 udp dport 27015 dnat to 10.0.1.10:27016 comment "ptero-alloc-102 quoted"',
+        '  }',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders an iptables-restore chain with one rule per protocol', () => {
+    expect(renderIptables('PTERO_UDM_SYNC', forwards)).toBe(
+      [
+        '*nat',
+        ':PTERO_UDM_SYNC - [0:0]',
+        '-F PTERO_UDM_SYNC',
+        '-A PTERO_UDM_SYNC -p tcp -m tcp --dport 25565 -m comment --comment "ptero-alloc-101" -j DNAT --to-destination 10.0.1.10:25565',
+        '-A PTERO_UDM_SYNC -p udp -m udp --dport 25565 -m comment --comment "ptero-alloc-101" -j DNAT --to-destination 10.0.1.10:25565',
+        '-A PTERO_UDM_SYNC -s 192.0.2.0/24 -d 198.51.100.10 -p udp -m udp --dport 27015 -m comment --comment "ptero-alloc-102 quoted" -j DNAT --to-destination 10.0.1.10:27016',
+        'COMMIT',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders port ranges in each backend syntax', () => {
+    const range = [
+      {
+        ...requestFactory({
+          name: 'ptero-alloc-101-106',
+          protocol: 'udp' as const,
+          externalPort: 27015,
+          externalPortEnd: 27020,
+          internalPort: 27015,
+          internalPortEnd: 27020,
+        }),
+        id: 'r',
+      },
+    ];
+
+    expect(renderNftables('managed', range)).toContain(
+      'udp dport 27015-27020 dnat to 10.0.1.10:27015-27020',
+    );
+    expect(renderIptables('MANAGED', range)).toContain(
+      '-p udp -m udp --dport 27015:27020 -m comment --comment "ptero-alloc-101-106" -j DNAT --to-destination 10.0.1.10:27015-27020',
+    );
+  });
+});
+
+describe('NetfilterDriver', () => {
+  let dir: string;
+  let statePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'netfilter-'));
+    statePath = join(dir, 'state', 'forwards.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const readState = async () => JSON.parse(await readFile(statePath, 'utf8'));
+
+  it('applies every change to nftables and persists the state', async () => {
+    const run = vi.fn().mockResolvedValue('');
+    const driver = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+
+    expect(await driver.listPortForwards()).toEqual([]);
+    const created = await driver.createPortForward(requestFactory());
+    const updated = await driver.updatePortForward(
+      created,
+      requestFactory({ internalIp: '10.0.1.20' }),
+    );
+
+    expect(created).toMatchObject({
+      name: 'ptero-alloc-101',
+      externalPort: '25565',
+      internalIp: '10.0.1.10',
+    });
+    expect(updated).toMatchObject({ id: created.id, internalIp: '10.0.1.20' });
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(run).toHaveBeenLastCalledWith(
+      'nft',
+      ['-f', '-'],
+      expect.stringContaining('dnat to 10.0.1.20:25565'),
+    );
+    expect(await readState()).toEqual([
+      expect.objectContaining({ id: created.id, internalIp: '10.0.1.20' }),
+    ]);
+
+    await driver.deletePortForward(created.id);
+
+    expect(await readState()).toEqual([]);
+    expect(await driver.listPortForwards()).toEqual([]);
+  });
+
+  it('re-applies the stored state when it is first loaded', async () => {
+    const run = vi.fn().mockResolvedValue('');
+    const first = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+    await first.createPortForward(requestFactory());
+    const stored = await readState();
+
+    run.mockClear();
+    const second = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+    const rules = await second.listPortForwards();
+    await second.listPortForwards();
+
+    expect(rules).toEqual([expect.objectContaining({ id: stored[0].id, raw: stored[0] })]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run).toHaveBeenCalledWith(
+      'nft',
+      ['-f', '-'],
+      expect.stringContaining('ptero-alloc-101'),
+    );
+  });
+
+  it('keeps the previous state when applying the ruleset fails', async () => {
+    const run = vi.fn().mockResolvedValueOnce('').mockRejectedValueOnce(new Error('nft failed'));
+    const driver = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+    await driver.listPortForwards();
+
+    await expect(driver.createPortForward(requestFactory())).rejects.toThrow('nft failed');
+
+    expect(await driver.listPortForwards()).toEqual([]);
+    await expect(readFile(statePath, 'utf8')).rejects.toThrow();
+  });
+
+  it('installs the iptables jump only when it is missing', async () => {
+    const run = vi.fn().mockImplementation(async (command: string, args: string[]) => {
+      if (command === 'iptables' && args.includes('-C')) {
+        throw new Error('iptables failed: No chain/target/match by that name');
+      }
+      return '';
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const driver = new NetfilterDriver({ backend: 'iptables', name: 'MANAGED', statePath }, run);
+
+    await driver.createPortForward(requestFactory({ protocol: 'tcp' }));
+    await driver.createPortForward(requestFactory({ name: 'second', protocol: 'udp' }));
+
+    expect(run.mock.calls.map(([command, args]) => `${command} ${args.join(' ')}`)).toEqual([
+      'iptables-restore --noflush',
+      'iptables -t nat -C PREROUTING -j MANAGED',
+      'iptables -t nat -A PREROUTING -j MANAGED',
+      'iptables-restore --noflush',
+      'iptables-restore --noflush',
+    ]);
+    expect(run.mock.calls[4][2]).toContain('-A MANAGED -p udp -m udp --dport 25565');
+  });
+
+  it('rejects values that cannot be rendered safely', async () => {
+    const run = vi.fn().mockResolvedValue('');
+    const driver = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+
+    await expect(
+      driver.createPortForward(requestFactory({ internalIp: '10.0.0.1; flush ruleset' })),
+    ).rejects.toThrow("Invalid internal IP '10.0.0.1; flush ruleset' for a netfilter forward");
+    await expect(driver.createPortForward(requestFactory({ externalPort: 70000 }))).rejects.toThrow(
+      "Invalid external port '70000'",
+    );
+    await expect(driver.createPortForward(requestFactory({ wanIp: 'wan' }))).rejects.toThrow(
+      "Invalid WAN IP 'wan'",
+    );
+    await expect(
+      driver.createPortForward(requestFactory({ externalPort: 27020, externalPortEnd: 27015 })),
+    ).rejects.toThrow("Invalid external port range end '27015'");
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('fails on unknown rules and unreadable state', async () => {
+    const run = vi.fn().mockResolvedValue('');
+    const driver = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+
+    await expect(driver.deletePortForward('missing')).rejects.toThrow(
+      'Port forward missing not found',
+    );
+    await expect(
+      driver.updatePortForward(
+        { ...(await driver.createPortForward(requestFactory())), id: 'missing' },
+        requestFactory(),
+      ),
+    ).rejects.toThrow('Port forward missing not found');
+
+    await writeFile(statePath, '{not json');
+    const broken = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath }, run);
+    await expect(broken.listPortForwards()).rejects.toThrow(/Unable to read netfilter state/);
+  });
+
+  it('describes the stored payload for auditing', () => {
+    const driver = new NetfilterDriver({ backend: 'nftables', name: 'managed', statePath });
+
+    expect(driver.buildPayload(requestFactory())).toEqual({ ...requestFactory(), id: null });
+  });
+});
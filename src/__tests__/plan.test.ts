@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+
+import { addChangeSetToPlan, createEmptyPlan, formatPlan } from '../plan';
+import type { PortForwardRule } from '../routerDriver';
+
+const rule: PortForwardRule = {
+  id: 'rule-303',
+  name: 'ptero-alloc-303',
+  enabled: true,
+  externalPort: '27015',
+  internalPort: '27015',
+  internalIp: '10.0.1.10',
+  protocol: 'udp',
+  source: 'any',
+  destination: 'any',
+  raw: {} as never,
+};
+
+describe('plan', () => {
+  it('reports an empty plan as in sync', () => {
+    expect(formatPlan(createEmptyPlan())).toBe(
+      'Plan: 0 to create, 0 to update, 0 to delete, 0 skipped\nNo changes. Managed port forwards are in sync.',
+    );
+  });
+
+  it('renders every change, skip, node failure and failed change', () => {
+    const plan = createEmptyPlan();
+    addChangeSetToPlan(plan, 1, {
+      toCreate: [
+        {
+          allocation: {
+            id: 404,
+            ip: '198.51.100.10',
+            ipAlias: null,
+            port: 25565,
+            notes: null,
+            isDefault: false,
+            assigned: true,
+            server: null,
+          },
+          input: {
+            name: 'ptero-alloc-404',
+            enabled: true,
+            externalPort: 25565,
+            internalPort: 25565,
+            internalIp: '10.0.1.10',
+            protocol: 'tcp_udp',
+            source: 'any',
+            destination: 'any',
+            wanIp: 'any',
+          },
+        },
+      ],
+      toUpdate: [
+        {
+          allocationId: 202,
+          rule: { ...rule, id: 'rule-202', name: 'ptero-alloc-202' },
+          input: {
+            name: 'ptero-alloc-202',
+            enabled: true,
+            externalPort: 25570,
+            internalPort: 25570,
+            internalIp: '10.0.1.20',
+            protocol: 'udp',
+            source: 'any',
+            destination: 'any',
+            wanIp: 'any',
+          },
+          changes: [{ field: 'internalIp', from: '10.0.9.9', to: '10.0.1.20' }],
+        },
+      ],
+      toDelete: [{ allocationId: 303, rule }],
+      skipped: [
+        {
+          nodeId: 1,
+          allocationId: 999,
+          cause: 'missing-target',
+          reason: 'missing target IP mapping',
+        },
+      ],
+      pendingDeletions: [
+        {
+          nodeId: 1,
+          allocationId: 606,
+          ruleId: 'rule-606',
+          ruleName: 'ptero-alloc-606',
+          missingSince: '2026-05-01T12:00:00.000Z',
+          missingCycles: 2,
+        },
+      ],
+      cleanup: [
+        { allocationId: 202, rule, issue: 'duplicate', action: 'delete' },
+        {
+          allocationId: null,
+          rule: { ...rule, id: 'rule-x', name: 'ptero-alloc-x' },
+          issue: 'malformed',
+          action: 'warn',
+        },
+      ],
+      conflicts: [
+        {
+          nodeId: 1,
+          allocationId: 505,
+          ruleId: 'manual-1',
+          ruleName: 'Counter-Strike',
+          message:
+            "27015/udp on WAN any overlaps rule 'Counter-Strike' (27015-27020/udp on WAN any)",
+        },
+      ],
+    });
+    plan.failedNodes.push({ nodeId: 2, error: 'timeout' });
+    plan.failedChanges.push(
+      {
+        nodeId: 1,
+        action: 'update',
+        allocationId: 202,
+        ruleId: 'rule-202',
+        ruleName: 'ptero-alloc-202',
+        error: 'invalid fwd',
+        failures: 1,
+        backedOff: false,
+      },
+      {
+        nodeId: 1,
+        action: 'create',
+        allocationId: 404,
+        ruleId: null,
+        ruleName: 'ptero-alloc-404',
+        error: 'port already in use',
+        failures: 3,
+        backedOff: true,
+      },
+    );
+
+    const output = formatPlan(plan).split('\n');
+
+    expect(output[0]).toBe(
+      'Plan: 1 to create, 1 to update, 1 to delete, 1 skipped, 1 conflicting, 2 to clean up, 1 pending deletion',
+    );
+    expect(output).toContain("- delete 'ptero-alloc-303' (node 1, allocation 303, rule rule-303)");
+    expect(output).toContain('    wanIp: any');
+    expect(output).toContain("~ update 'ptero-alloc-202' (node 1, allocation 202, rule rule-202)");
+    expect(output).toContain('    internalIp: 10.0.9.9 -> 10.0.1.20');
+    expect(output).toContain("+ create 'ptero-alloc-404' (node 1, allocation 404)");
+    expect(output).toContain('    externalPort: 25565');
+    expect(output).toContain('! skip allocation 999 (node 1): missing target IP mapping');
+    expect(output).toContain(
+      "! conflict for allocation 505 (node 1): 27015/udp on WAN any overlaps rule 'Counter-Strike' (27015-27020/udp on WAN any)",
+    );
+    expect(output).toContain(
+      "! duplicate rule 'ptero-alloc-303' (node 1, allocation 202, rule rule-303): delete",
+    );
+    expect(output).toContain("! malformed rule 'ptero-alloc-x' (node 1, rule rule-x): warn");
+    expect(output).toContain(
+      "? keep 'ptero-alloc-606' (node 1, allocation 606, rule rule-606): allocation missing for 2 cycle(s) since 2026-05-01T12:00:00.000Z",
+    );
+    expect(output).toContain('x node 2 failed: timeout');
+    expect(output).toContain(
+      "x update 'ptero-alloc-202' (node 1, allocation 202, rule rule-202) failed (1 in a row): invalid fwd",
+    );
+    expect(output).toContain(
+      "x create 'ptero-alloc-404' (node 1, allocation 404) backed off after 3 failure(s): port already in use",
+    );
+    expect(output).not.toContain('No changes. Managed port forwards are in sync.');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeConflict, findConflictingRule, parsePortSpans } from '../portConflicts';
+import type { PortForwardRequest, PortForwardRule } from '../routerDriver';
+
+const requestFactory = (overrides: Partial<PortForwardRequest> = {}): PortForwardRequest => ({
+  name: 'ptero-alloc-101',
+  enabled: true,
+  externalPort: 27015,
+  internalPort: 27015,
+  internalIp: '10.0.1.10',
+  protocol: 'tcp_udp',
+  source: 'any',
+  destination: 'any',
+  wanIp: 'any',
+  ...overrides,
+});
+
+const ruleFactory = (overrides: Partial<PortForwardRule> = {}): PortForwardRule => ({
+  id: 'manual-1',
+  name: 'Counter-Strike',
+  enabled: true,
+  externalPort: '27015',
+  internalPort: '27015',
+  internalIp: '10.0.1.99',
+  protocol: 'udp',
+  source: 'any',
+  destination: 'any',
+  wanIp: 'any',
+  raw: {},
+  ...overrides,
+});
+
+describe('parsePortSpans', () => {
+  it('parses single ports, ranges and lists', () => {
+    expect(parsePortSpans('27015')).toEqual([[27015, 27015]]);
+    expect(parsePortSpans('27015-27020')).toEqual([[27015, 27020]]);
+    expect(parsePortSpans('80, 443,8000-8010')).toEqual([
+      [80, 80],
+      [443, 443],
+      [8000, 8010],
+    ]);
+    expect(parsePortSpans('27020-27015')).toEqual([[27015, 27020]]);
+  });
+
+  it('rejects values that are not ports', () => {
+    expect(parsePortSpans('')).toBeNull();
+    expect(parsePortSpans('http')).toBeNull();
+    expect(parsePortSpans('80,')).toBeNull();
+  });
+});
+
+describe('findConflictingRule', () => {
+  it('finds rules sharing a WAN port, including ranges on either side', () => {
+    const range = ruleFactory({ id: 'range', externalPort: '27010-27020' });
+
+    expect(findConflictingRule(requestFactory(), [range])).toBe(range);
+    expect(
+      findConflictingRule(requestFactory({ externalPort: 27000, externalPortEnd: 27010 }), [
+        ruleFactory({ externalPort: '27010' }),
+      ]),
+    ).not.toBeNull();
+    expect(
+      findConflictingRule(requestFactory({ externalPort: 27000, externalPortEnd: 27009 }), [range]),
+    ).toBeNull();
+  });
+
+  it('only reports overlapping protocols and WAN IPs', () => {
+    const tcp = ruleFactory({ protocol: 'tcp' });
+    const otherWan = ruleFactory({ wanIp: '203.0.113.5' });
+
+    expect(findConflictingRule(requestFactory({ protocol: 'udp' }), [tcp])).toBeNull();
+    expect(findConflictingRule(requestFactory({ protocol: 'tcp' }), [tcp])).toBe(tcp);
+    expect(findConflictingRule(requestFactory({ wanIp: '198.51.100.1' }), [otherWan])).toBeNull();
+    expect(findConflictingRule(requestFactory({ wanIp: '203.0.113.5' }), [otherWan])).toBe(
+      otherWan,
+    );
+    expect(findConflictingRule(requestFactory(), [otherWan])).toBe(otherWan);
+    expect(
+      findConflictingRule(requestFactory(), [ruleFactory({ wanIp: undefined })]),
+    ).not.toBeNull();
+  });
+
+  it('ignores disabled rules and rules with unreadable ports', () => {
+    expect(
+      findConflictingRule(requestFactory(), [
+        ruleFactory({ enabled: false }),
+        ruleFactory({ externalPort: 'any' }),
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe('describeConflict', () => {
+  it('names both sides of the conflict', () => {
+    expect(
+      describeConflict(
+        requestFactory({ externalPort: 27015, externalPortEnd: 27016, protocol: 'udp' }),
+        ruleFactory({ externalPort: '27010-27020', wanIp: undefined }),
+      ),
+    ).toBe(
+      "27015-27016/udp on WAN any overlaps rule 'Counter-Strike' (27010-27020/udp on WAN any)",
+    );
+  });
+});
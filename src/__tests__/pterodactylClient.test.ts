@@ -1,7 +1,12 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, type AxiosResponse } from 'axios';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { metricsRegistry } from '../metrics';
 import { PterodactylClient } from '../pterodactylClient';
+import { defaultRetryOptions } from '../retry';
+
+const noRetries = { ...defaultRetryOptions, maxReadRetries: 0 };
+const fastRetries = { ...defaultRetryOptions, baseDelayMs: 1, maxDelayMs: 5 };
 
 const mockAxiosInstance = (overrides: Partial<AxiosInstance>): AxiosInstance =>
   ({
@@ -26,6 +31,7 @@ const mockAxiosInstance = (overrides: Partial<AxiosInstance>): AxiosInstance =>
 describe('PterodactylClient', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
+    metricsRegistry.resetMetrics();
   });
 
   it('fetches a single page of allocations', async () => {
@@ -58,10 +64,159 @@ describe('PterodactylClient', () => {
     const allocations = await client.listAllocations(5);
 
     expect(getMock).toHaveBeenCalledWith('/nodes/5/allocations', {
-      params: { page: 1, per_page: 50 },
+      params: { include: 'server', page: 1, per_page: 50 },
     });
     expect(allocations).toHaveLength(1);
-    expect(allocations[0]).toMatchObject({ id: 10, port: 25565 });
+    expect(allocations[0]).toMatchObject({ id: 10, port: 25565, assigned: false, server: null });
+  });
+
+  it('maps the assignment flag and the attached server', async () => {
+    const getMock = vi.fn().mockResolvedValue({
+      data: {
+        data: [
+          {
+            attributes: {
+              id: 10,
+              ip: '198.51.100.10',
+              ip_alias: null,
+              port: 25565,
+              notes: null,
+              is_default: true,
+              assigned: true,
+            },
+            relationships: {
+              server: {
+                object: 'server',
+                attributes: {
+                  id: 4,
+                  uuid: 'c2ad7bfc-1f3b-4b44-9c5e-4f7e07b6c0a1',
+                  identifier: 'c2ad7bfc',
+                  name: 'Survival',
+                  node: 5,
+                  suspended: false,
+                  status: null,
+                },
+              },
+            },
+          },
+          {
+            attributes: {
+              id: 11,
+              ip: '198.51.100.10',
+              ip_alias: null,
+              port: 25566,
+              notes: null,
+              is_default: false,
+              assigned: false,
+            },
+            relationships: { server: { object: 'null_resource', attributes: null } },
+          },
+        ],
+      },
+    });
+
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token');
+    const allocations = await client.listAllocations(5);
+
+    expect(allocations[0]).toMatchObject({
+      assigned: true,
+      server: {
+        id: 4,
+        uuid: 'c2ad7bfc-1f3b-4b44-9c5e-4f7e07b6c0a1',
+        identifier: 'c2ad7bfc',
+        name: 'Survival',
+      },
+    });
+    expect(allocations[1]).toMatchObject({ assigned: false, server: null });
+  });
+
+  it('treats servers with a suspended status as suspended', async () => {
+    const getMock = vi.fn().mockResolvedValue({
+      data: {
+        data: [
+          {
+            attributes: {
+              id: 10,
+              ip: '198.51.100.10',
+              ip_alias: null,
+              port: 25565,
+              notes: null,
+              is_default: true,
+            },
+            relationships: {
+              server: {
+                object: 'server',
+                attributes: { id: 4, uuid: 'u', identifier: 'i', name: 'n', status: 'suspended' },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token');
+    const [allocation] = await client.listAllocations(5);
+
+    expect(allocation).toMatchObject({ assigned: true, server: { suspended: true } });
+  });
+
+  it('reads server power state through the Client API', async () => {
+    const getMock = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 200, data: { attributes: { current_state: 'offline' } } })
+      .mockResolvedValueOnce({ status: 200, data: {} });
+    const createSpy = vi
+      .spyOn(axios, 'create')
+      .mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token', 'client-token');
+
+    expect(client.supportsPowerState).toBe(true);
+    expect(createSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        baseURL: 'https://panel.example.com/api/client',
+        headers: expect.objectContaining({ Authorization: 'Bearer client-token' }),
+      }),
+    );
+    await expect(client.getServerPowerState('1a2b3c4d')).resolves.toBe('offline');
+    expect(getMock).toHaveBeenCalledWith('/servers/1a2b3c4d/resources', { signal: undefined });
+    await expect(client.getServerPowerState('1a2b3c4d')).rejects.toThrow(
+      'Unexpected payload when fetching resources of server 1a2b3c4d',
+    );
+  });
+
+  it('requires a Client API key for power state lookups', async () => {
+    const forbidden = new AxiosError('Forbidden');
+    forbidden.response = { status: 403 } as AxiosResponse;
+    const getMock = vi.fn().mockRejectedValue(forbidden);
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const withoutKey = new PterodactylClient('https://panel.example.com', 'token');
+    const withKey = new PterodactylClient('https://panel.example.com', 'token', 'client-token');
+
+    expect(withoutKey.supportsPowerState).toBe(false);
+    await expect(withoutKey.getServerPowerState('1a2b3c4d')).rejects.toThrow(
+      'A Pterodactyl Client API key is required to read server power state',
+    );
+    await expect(withKey.getServerPowerState('1a2b3c4d')).rejects.toThrow('Forbidden');
+  });
+
+  it('verifies the Client API key by reading its account', async () => {
+    const getMock = vi.fn().mockResolvedValue({ status: 200, data: { object: 'user' } });
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const withoutKey = new PterodactylClient('https://panel.example.com', 'token');
+    const withKey = new PterodactylClient('https://panel.example.com', 'token', 'client-token');
+
+    await expect(withoutKey.verifyClientAccess()).rejects.toThrow(
+      'No Pterodactyl Client API key is configured',
+    );
+    await expect(withKey.verifyClientAccess()).resolves.toBeUndefined();
+    expect(getMock).toHaveBeenCalledWith('/account', { signal: undefined });
   });
 
   it('handles pagination by merging subsequent pages', async () => {
@@ -120,4 +275,112 @@ describe('PterodactylClient', () => {
     expect(getMock).toHaveBeenCalledTimes(2);
     expect(allocations.map((alloc) => alloc.id)).toEqual([1, 2]);
   });
+
+  it('lists panel nodes', async () => {
+    const getMock = vi.fn().mockResolvedValue({
+      data: {
+        data: [
+          { attributes: { id: 1, name: 'wings-1' } },
+          { attributes: { id: 2, name: 'wings-2' } },
+        ],
+      },
+    });
+
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token');
+    const nodes = await client.listNodes();
+
+    expect(getMock).toHaveBeenCalledWith('/nodes', { params: { page: 1, per_page: 50 } });
+    expect(nodes).toEqual([
+      { id: 1, name: 'wings-1' },
+      { id: 2, name: 'wings-2' },
+    ]);
+  });
+
+  it('rejects unexpected payloads', async () => {
+    const getMock = vi.fn().mockResolvedValue({ data: { data: null } });
+
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token');
+
+    await expect(client.listAllocations(1)).rejects.toThrow(
+      'Unexpected payload when fetching allocations from Pterodactyl',
+    );
+  });
+
+  it('counts page fetches by resource and status', async () => {
+    const failure = new AxiosError('Bad gateway');
+    failure.response = { status: 502 } as AxiosResponse;
+    const getMock = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 200, data: { data: [] } })
+      .mockRejectedValueOnce(failure);
+
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient(
+      'https://panel.example.com',
+      'token',
+      undefined,
+      noRetries,
+    );
+    await client.listNodes();
+    await expect(client.listAllocations(1)).rejects.toBe(failure);
+
+    const metric = await metricsRegistry
+      .getSingleMetric('ptero_udm_sync_pterodactyl_page_fetches_total')
+      ?.get();
+    expect(metric?.values).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ labels: { resource: 'nodes', status: '200' }, value: 1 }),
+        expect.objectContaining({ labels: { resource: 'allocations', status: '502' }, value: 1 }),
+      ]),
+    );
+  });
+
+  it('retries failed page fetches with backoff', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const badGateway = new AxiosError('Bad gateway');
+    badGateway.response = { status: 502 } as AxiosResponse;
+    const getMock = vi
+      .fn()
+      .mockRejectedValueOnce(badGateway)
+      .mockRejectedValueOnce(new AxiosError('socket hang up', 'ECONNRESET'))
+      .mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ attributes: { id: 1, name: 'a' } }] },
+      });
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient(
+      'https://panel.example.com',
+      'token',
+      undefined,
+      fastRetries,
+    );
+
+    await expect(client.listNodes()).resolves.toEqual([{ id: 1, name: 'a' }]);
+    expect(getMock).toHaveBeenCalledTimes(3);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Pterodactyl nodes fetch failed (HTTP 502); retrying in'),
+    );
+  });
+
+  it('gives up once the read retries are used up', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const unavailable = new AxiosError('Service unavailable');
+    unavailable.response = { status: 503 } as AxiosResponse;
+    const getMock = vi.fn().mockRejectedValue(unavailable);
+    vi.spyOn(axios, 'create').mockReturnValue(mockAxiosInstance({ get: getMock }));
+
+    const client = new PterodactylClient('https://panel.example.com', 'token', undefined, {
+      ...fastRetries,
+      maxReadRetries: 2,
+    });
+
+    await expect(client.listAllocations(1)).rejects.toBe(unavailable);
+    expect(getMock).toHaveBeenCalledTimes(3);
+  });
 });
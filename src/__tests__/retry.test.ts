@@ -0,0 +1,131 @@
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  backoffDelay,
+  classifyFailure,
+  defaultRetryOptions,
+  retryAfterMs,
+  withRetry,
+} from '../retry';
+
+const httpError = (status: number, headers: Record<string, string> = {}) => {
+  const error = new AxiosError(`Request failed with status code ${status}`);
+  error.response = { status, headers } as AxiosResponse;
+  return error;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('classifyFailure', () => {
+  it('tells failures that are safe to resend from ambiguous ones', () => {
+    expect(classifyFailure(httpError(429))).toBe('rejected');
+    expect(classifyFailure(new AxiosError('refused', 'ECONNREFUSED'))).toBe('rejected');
+    expect(classifyFailure(new AxiosError('lookup failed', 'ENOTFOUND'))).toBe('rejected');
+    expect(classifyFailure(httpError(502))).toBe('ambiguous');
+    expect(classifyFailure(new AxiosError('socket hang up', 'ECONNRESET'))).toBe('ambiguous');
+    expect(classifyFailure(new AxiosError('timeout', 'ECONNABORTED'))).toBe('ambiguous');
+  });
+
+  it('never retries client errors, cancellations or other errors', () => {
+    expect(classifyFailure(httpError(400))).toBe('fatal');
+    expect(classifyFailure(httpError(404))).toBe('fatal');
+    expect(classifyFailure(new axios.CanceledError('aborted'))).toBe('fatal');
+    expect(classifyFailure(new Error('boom'))).toBe('fatal');
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('reads delays in seconds and as HTTP dates', () => {
+    const now = Date.parse('2026-05-01T12:00:00Z');
+
+    expect(retryAfterMs(httpError(429, { 'retry-after': '3' }), now)).toBe(3_000);
+    expect(
+      retryAfterMs(httpError(503, { 'retry-after': 'Fri, 01 May 2026 12:00:10 GMT' }), now),
+    ).toBe(10_000);
+    expect(
+      retryAfterMs(httpError(503, { 'retry-after': 'Fri, 01 May 2026 11:00:00 GMT' }), now),
+    ).toBe(0);
+  });
+
+  it('ignores missing and unreadable headers', () => {
+    expect(retryAfterMs(httpError(429))).toBeUndefined();
+    expect(retryAfterMs(httpError(429, { 'retry-after': 'soon' }))).toBeUndefined();
+    expect(retryAfterMs(new Error('boom'))).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per retry with jitter and stays below the cap', () => {
+    const options = { ...defaultRetryOptions, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+    expect(backoffDelay(options, 0, () => 0)).toBe(50);
+    expect(backoffDelay(options, 0, () => 1)).toBe(100);
+    expect(backoffDelay(options, 2, () => 0.5)).toBe(300);
+    expect(backoffDelay(options, 10, () => 1)).toBe(1_000);
+  });
+});
+
+describe('withRetry', () => {
+  const options = { ...defaultRetryOptions, baseDelayMs: 1, maxDelayMs: 2 };
+
+  it('retries until the operation succeeds and passes the attempt number', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce('done');
+
+    await expect(withRetry(operation, { label: 'Test', maxRetries: 2, options })).resolves.toBe(
+      'done',
+    );
+    expect(operation.mock.calls).toEqual([[0], [1], [2]]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('[retry] Test failed (HTTP 503); retrying in'),
+    );
+  });
+
+  it('stops at the retry limit and on failures it should not retry', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const unavailable = httpError(503);
+    const failing = vi.fn().mockRejectedValue(unavailable);
+
+    await expect(withRetry(failing, { label: 'Test', maxRetries: 1, options })).rejects.toBe(
+      unavailable,
+    );
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const onlyRejected = vi.fn().mockRejectedValue(unavailable);
+    await expect(
+      withRetry(onlyRejected, {
+        label: 'Test',
+        maxRetries: 3,
+        options,
+        retryOn: (kind) => kind === 'rejected',
+      }),
+    ).rejects.toBe(unavailable);
+    expect(onlyRejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting and retrying once the signal is aborted', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const controller = new AbortController();
+    const failing = vi.fn().mockRejectedValue(httpError(503));
+    const slow = { ...defaultRetryOptions, baseDelayMs: 60_000, maxDelayMs: 60_000 };
+
+    const pending = withRetry(failing, {
+      label: 'Test',
+      maxRetries: 3,
+      options: slow,
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(failing).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(/aborted/i);
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { StatusServer } from '../statusServer';
+import type { SyncService } from '../syncService';
+
+const createServer = (
+  overrides: Record<string, ReturnType<typeof vi.fn>> = {},
+  webhookSecret?: string,
+) => {
+  const syncService = {
+    requestSync: vi.fn().mockReturnValue('started'),
+    isHealthy: vi.fn().mockReturnValue(true),
+    isReady: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue({ lastSuccessfulCycleAt: '2026-01-01T00:00:00.000Z' }),
+    ...overrides,
+  };
+  const server = new StatusServer(
+    {
+      port: 0,
+      host: '127.0.0.1',
+      pollIntervalMs: 30_000,
+      healthMaxMissedIntervals: 3,
+      webhookSecret,
+    },
+    syncService as unknown as SyncService,
+  );
+  return { server, syncService };
+};
+
+let running: StatusServer | null = null;
+
+const startServer = async (server: StatusServer) => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  await server.start();
+  running = server;
+  return `http://127.0.0.1:${server.port}`;
+};
+
+afterEach(async () => {
+  await running?.stop();
+  running = null;
+  vi.restoreAllMocks();
+});
+
+describe('StatusServer', () => {
+  it('reports health against the allowed number of missed intervals', async () => {
+    const { server, syncService } = createServer();
+    const baseUrl = await startServer(server);
+
+    const healthy = await fetch(`${baseUrl}/healthz`);
+    expect(healthy.status).toBe(200);
+    expect(await healthy.json()).toEqual({
+      status: 'ok',
+      lastSuccessfulCycleAt: '2026-01-01T00:00:00.000Z',
+    });
+    expect(syncService.isHealthy).toHaveBeenCalledWith(90_000);
+
+    syncService.isHealthy.mockReturnValue(false);
+    const stale = await fetch(`${baseUrl}/healthz`);
+    expect(stale.status).toBe(503);
+    expect(await stale.json()).toMatchObject({ status: 'stale' });
+  });
+
+  it('fails readiness until both clients succeeded', async () => {
+    const { server, syncService } = createServer({ isReady: vi.fn().mockReturnValue(false) });
+    const baseUrl = await startServer(server);
+
+    expect((await fetch(`${baseUrl}/readyz`)).status).toBe(503);
+
+    syncService.isReady.mockReturnValue(true);
+    const ready = await fetch(`${baseUrl}/readyz`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: 'ready' });
+  });
+
+  it('serves the status snapshot as JSON', async () => {
+    const status = { lastCycle: { created: 1 }, clients: {} };
+    const { server } = createServer({ getStatus: vi.fn().mockReturnValue(status) });
+    const baseUrl = await startServer(server);
+
+    const response = await fetch(`${baseUrl}/status`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual(status);
+  });
+
+  it('exposes Prometheus metrics', async () => {
+    const { server } = createServer();
+    const baseUrl = await startServer(server);
+
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    const body = await response.text();
+    expect(body).toContain('# TYPE ptero_udm_sync_cycles_total counter');
+    expect(body).toContain('# TYPE ptero_udm_sync_cycle_duration_seconds histogram');
+  });
+
+  it('answers with 500 when a handler throws', async () => {
+    const { server } = createServer({
+      getStatus: vi.fn().mockImplementation(() => {
+        throw new Error('boom');
+      }),
+    });
+    const baseUrl = await startServer(server);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await fetch(`${baseUrl}/status`);
+
+    expect(response.status).toBe(500);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\[http\] Request failed .*error=boom/),
+    );
+  });
+
+  it('rejects unknown paths and methods', async () => {
+    const { server } = createServer();
+    const baseUrl = await startServer(server);
+
+    expect((await fetch(`${baseUrl}/unknown`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/status`, { method: 'DELETE' })).status).toBe(405);
+  });
+
+  it('starts and stops idempotently', async () => {
+    const { server } = createServer();
+    await startServer(server);
+    await server.start();
+
+    await server.stop();
+    await server.stop();
+    running = null;
+
+    expect(server.port).toBeNull();
+  });
+
+  describe('sync webhook', () => {
+    const secret = 'hook-secret';
+
+    it('triggers a sync with the shared secret', async () => {
+      const { server, syncService } = createServer({}, secret);
+      const baseUrl = await startServer(server);
+
+      const response = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ status: 'started' });
+      expect(syncService.requestSync).toHaveBeenCalledOnce();
+    });
+
+    it('accepts an HMAC signature of the body', async () => {
+      const { server, syncService } = createServer(
+        { requestSync: vi.fn().mockReturnValue('queued') },
+        secret,
+      );
+      const baseUrl = await startServer(server);
+      const body = JSON.stringify({ event: 'allocation.created' });
+      const signature = createHmac('sha256', secret).update(body).digest('hex');
+
+      const response = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { 'X-Signature-256': `sha256=${signature}` },
+        body,
+      });
+
+      expect(response.status).toBe(202);
+      expect(await response.json()).toEqual({ status: 'queued' });
+      expect(syncService.requestSync).toHaveBeenCalledOnce();
+    });
+
+    it('refuses to start a sync while the service shuts down', async () => {
+      const { server } = createServer({ requestSync: vi.fn().mockReturnValue('stopping') }, secret);
+      const baseUrl = await startServer(server);
+
+      const response = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ status: 'stopping' });
+    });
+
+    it('rejects missing or wrong credentials', async () => {
+      const { server, syncService } = createServer({}, secret);
+      const baseUrl = await startServer(server);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const unsigned = await fetch(`${baseUrl}/sync`, { method: 'POST' });
+      const wrongToken = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer nope' },
+      });
+      const wrongSignature = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { 'X-Signature-256': 'sha256=deadbeef' },
+        body: 'payload',
+      });
+
+      expect([unsigned.status, wrongToken.status, wrongSignature.status]).toEqual([401, 401, 401]);
+      expect(syncService.requestSync).not.toHaveBeenCalled();
+    });
+
+    it('only accepts POST and bounded bodies', async () => {
+      const { server } = createServer({}, secret);
+      const baseUrl = await startServer(server);
+
+      expect((await fetch(`${baseUrl}/sync`)).status).toBe(405);
+      const tooLarge = await fetch(`${baseUrl}/sync`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+        body: 'x'.repeat(70 * 1024),
+      });
+      expect(tooLarge.status).toBe(413);
+    });
+
+    it('is disabled without a secret', async () => {
+      const { server, syncService } = createServer();
+      const baseUrl = await startServer(server);
+
+      const response = await fetch(`${baseUrl}/sync`, { method: 'POST' });
+
+      expect(response.status).toBe(405);
+      expect(syncService.requestSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,25 +1,36 @@
-import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import type { Allocation } from '../pterodactylClient';
+import type { Allocation, AllocationServer } from '../pterodactylClient';
 import type { AppConfig } from '../config';
+import type { FieldChange } from '../plan';
+import { metricsRegistry } from '../metrics';
 import { SyncService } from '../syncService';
+import type { SyncNode } from '../syncService';
 import type { PterodactylClient } from '../pterodactylClient';
-import type { PortForwardRequest, PortForwardRule, UdmClient } from '../udmClient';
+import type { PortForwardRequest, PortForwardRule, RouterDriver } from '../routerDriver';
 
 const baseConfig: AppConfig = {
   pterodactyl: {
     url: 'https://panel.example.com',
     apiKey: 'api-key',
-    nodeId: 1,
+    clientApiKey: undefined,
+    nodes: [1],
+    nodeSettings: {},
     pollIntervalMs: 1_000,
   },
   udm: {
     url: 'https://udm.example.com',
     username: 'admin',
     password: 'password',
+    apiKey: undefined,
+    controllerType: 'unifi-os',
     site: 'default',
     allowSelfSigned: true,
     namePrefix: 'ptero-alloc-',
+    nameTemplate: '{prefix}{allocationId}',
     protocol: 'tcp_udp',
     defaultTargetIp: '10.0.1.10',
     targetIpMap: {},
@@ -27,6 +38,39 @@ const baseConfig: AppConfig = {
     source: 'any',
     destination: 'any',
   },
+  router: {
+    backend: 'udm',
+    nftTable: 'ptero_udm_sync',
+    iptablesChain: 'PTERO_UDM_SYNC',
+    statePath: 'data/netfilter-forwards.json',
+  },
+  sync: {
+    dryRun: false,
+    mergePortRanges: false,
+    onlyAssignedAllocations: false,
+    migratePrefixes: [],
+    adoptUnmanagedRules: false,
+    malformedRulePolicy: 'warn',
+    maxChangeBackoffCycles: 16,
+    applyConcurrency: 1,
+    applyRateLimit: undefined,
+    shutdownTimeoutMs: 1_000,
+    deletionGrace: { cycles: 0, minutes: 0, disableRules: false, statePath: '' },
+    deletionGuard: {
+      allowEmptyAllocations: false,
+      override: false,
+    },
+  },
+  http: {
+    port: undefined,
+    host: '0.0.0.0',
+    healthMaxMissedIntervals: 3,
+    webhookSecret: undefined,
+  },
+  audit: {
+    logPath: undefined,
+  },
+  retry: { maxReadRetries: 0, maxWriteRetries: 0, baseDelayMs: 1, maxDelayMs: 1 },
 };
 
 const allocationFactory = (overrides: Partial<Allocation> = {}): Allocation => ({
@@ -36,6 +80,8 @@ const allocationFactory = (overrides: Partial<Allocation> = {}): Allocation => (
   port: 25565,
   notes: null,
   isDefault: false,
+  assigned: true,
+  server: null,
   ...overrides,
 });
 
@@ -48,7 +94,7 @@ const createService = (configOverrides: Partial<AppConfig['udm']> = {}) => {
     },
   };
 
-  return new SyncService(config, {} as unknown as PterodactylClient, {} as unknown as UdmClient);
+  return new SyncService(config, {} as unknown as PterodactylClient, {} as unknown as RouterDriver);
 };
 
 const ruleFactory = (overrides: Partial<PortForwardRule> = {}): PortForwardRule => ({
@@ -68,11 +114,26 @@ const ruleFactory = (overrides: Partial<PortForwardRule> = {}): PortForwardRule
 
 const invokeResolveTargetIp = (service: SyncService, allocation: Allocation): string | null => {
   const resolver = service as unknown as {
-    resolveTargetIp: (alloc: Allocation) => string | null;
+    config: AppConfig;
+    resolveTargetIp: (alloc: Allocation, node: SyncNode) => string | null;
   };
-  return resolver.resolveTargetIp(allocation);
+  const { udm } = resolver.config;
+  return resolver.resolveTargetIp(allocation, {
+    id: 1,
+    namePrefix: udm.namePrefix,
+    defaultTargetIp: udm.defaultTargetIp,
+    targetIpMap: udm.targetIpMap,
+  });
+};
+
+const flushMicrotasks = async () => {
+  for (let i = 0; i < 10; i += 1) {
+    await Promise.resolve();
+  }
 };
 
+const anySignal = expect.any(AbortSignal);
+
 afterEach(() => {
   vi.restoreAllMocks();
 });
@@ -124,21 +185,45 @@ const createSyncContext = ({
   allocations = [],
   rules = [],
   configOverrides = {},
+  pterodactylOverrides = {},
+  syncOverrides = {},
+  auditLogPath,
 }: {
-  allocations?: Allocation[];
+  allocations?: Allocation[] | Record<number, Allocation[] | Error>;
   rules?: PortForwardRule[];
   configOverrides?: Partial<AppConfig['udm']>;
+  pterodactylOverrides?: Partial<AppConfig['pterodactyl']>;
+  syncOverrides?: Partial<AppConfig['sync']>;
+  auditLogPath?: string;
 }) => {
   const config: AppConfig = {
     ...baseConfig,
+    pterodactyl: {
+      ...baseConfig.pterodactyl,
+      ...pterodactylOverrides,
+    },
     udm: {
       ...baseConfig.udm,
       ...configOverrides,
     },
+    sync: {
+      ...baseConfig.sync,
+      ...syncOverrides,
+    },
+    audit: { logPath: auditLogPath },
   };
 
   const pterodactyl = {
-    listAllocations: vi.fn().mockResolvedValue(allocations),
+    listAllocations: vi.fn().mockImplementation(async (nodeId: number) => {
+      const result = Array.isArray(allocations) ? allocations : (allocations[nodeId] ?? []);
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result;
+    }),
+    listNodes: vi.fn().mockResolvedValue([]),
+    supportsPowerState: false,
+    getServerPowerState: vi.fn(),
   };
 
   const udm = {
@@ -146,12 +231,16 @@ const createSyncContext = ({
     createPortForward: vi.fn().mockResolvedValue(undefined),
     updatePortForward: vi.fn().mockResolvedValue(undefined),
     deletePortForward: vi.fn().mockResolvedValue(undefined),
+    buildPayload: vi.fn((input: PortForwardRequest) => ({
+      name: input.name,
+      fwd: input.internalIp,
+    })),
   };
 
   const service = new SyncService(
     config,
     pterodactyl as unknown as PterodactylClient,
-    udm as unknown as UdmClient,
+    udm as unknown as RouterDriver,
   );
 
   const runCycle = async () => {
@@ -216,7 +305,7 @@ describe('SyncService.runSyncCycle', () => {
     expect(pterodactyl.listAllocations).toHaveBeenCalledOnce();
     expect(udm.listPortForwards).toHaveBeenCalledOnce();
 
-    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-303');
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-303', anySignal);
     expect(udm.updatePortForward).toHaveBeenCalledWith(
       ruleToUpdate,
       expect.objectContaining({
@@ -224,6 +313,7 @@ describe('SyncService.runSyncCycle', () => {
         internalIp: '10.0.2.20',
         externalPort: 25570,
       }),
+      anySignal,
     );
     expect(udm.createPortForward).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -232,10 +322,13 @@ describe('SyncService.runSyncCycle', () => {
         externalPort: 27015,
         wanIp: 'any',
       }),
+      anySignal,
     );
 
     expect(warnSpy).toHaveBeenCalledWith(
-      "[sync] Found managed prefix but could not parse allocation id from rule 'ptero-alloc-not-a-number'",
+      expect.stringContaining(
+        "[sync] Found managed prefix but could not parse allocation id from rule 'ptero-alloc-not-a-number'",
+      ),
     );
   });
 
@@ -251,7 +344,7 @@ describe('SyncService.runSyncCycle', () => {
     });
 
     const { runCycle, udm } = createSyncContext({
-      allocations: [allocation],
+      allocations: [allocation, allocationFactory({ id: 998, port: 25566 })],
       rules: [existingRule],
       configOverrides: {
         defaultTargetIp: undefined,
@@ -264,148 +357,2265 @@ describe('SyncService.runSyncCycle', () => {
     expect(udm.updatePortForward).not.toHaveBeenCalled();
     expect(udm.createPortForward).not.toHaveBeenCalled();
     expect(udm.deletePortForward).not.toHaveBeenCalled();
-    expect(warnSpy).toHaveBeenCalledWith(
-      '[sync] Allocation 999 missing target IP mapping; skipping update',
+    const warnings = warnSpy.mock.calls
+      .map(([line]) => String(line))
+      .filter((line) => line.includes('missing target IP mapping'));
+    expect(warnings).toEqual([
+      expect.stringContaining('[sync] Allocation 999 missing target IP mapping; skipping update'),
+      expect.stringContaining('[sync] Allocation 998 missing target IP mapping; skipping creation'),
+    ]);
+  });
+});
+
+describe('SyncService planning', () => {
+  const planContext = (syncOverrides: Partial<AppConfig['sync']> = {}) =>
+    createSyncContext({
+      allocations: [
+        allocationFactory({ id: 202, port: 25570 }),
+        allocationFactory({ id: 404, port: 27015 }),
+        allocationFactory({ id: 505, ip: '203.0.113.50', port: 27016 }),
+      ],
+      rules: [
+        ruleFactory({
+          id: 'rule-202',
+          name: 'ptero-alloc-202',
+          internalIp: '10.0.9.9',
+          externalPort: '25570',
+          internalPort: '25570',
+        }),
+        ruleFactory({ id: 'rule-303', name: 'ptero-alloc-303' }),
+      ],
+      configOverrides: {
+        defaultTargetIp: undefined,
+        targetIpMap: { '198.51.100.10': '10.0.1.10' },
+      },
+      syncOverrides,
+    });
+
+  it('returns field-level changes without touching the UDM', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { service, udm } = planContext();
+
+    const plan = await service.plan();
+
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(udm.updatePortForward).not.toHaveBeenCalled();
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        action: 'delete',
+        allocationId: 303,
+        ruleId: 'rule-303',
+      }),
+      {
+        action: 'update',
+        nodeId: 1,
+        allocationId: 202,
+        ruleId: 'rule-202',
+        name: 'ptero-alloc-202',
+        changes: [{ field: 'internalIp', from: '10.0.9.9', to: '10.0.1.10' }],
+      },
+      expect.objectContaining({
+        action: 'create',
+        allocationId: 404,
+        name: 'ptero-alloc-404',
+        changes: expect.arrayContaining([{ field: 'externalPort', from: '', to: '27015' }]),
+      }),
+    ]);
+    expect(plan.skipped).toEqual([
+      {
+        nodeId: 1,
+        allocationId: 505,
+        cause: 'missing-target',
+        reason: 'missing target IP mapping',
+      },
+    ]);
+    expect(plan.failedNodes).toEqual([]);
+  });
+
+  it('logs the plan instead of applying it in dry-run mode', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = planContext({ dryRun: true });
+
+    await runCycle();
+
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(udm.updatePortForward).not.toHaveBeenCalled();
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Plan: 1 to create, 1 to update, 1 to delete, 1 skipped'),
+    );
+  });
+});
+
+describe('SyncService deletion guard', () => {
+  const managedRules = [
+    ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101' }),
+    ruleFactory({ id: 'rule-102', name: 'ptero-alloc-102', externalPort: '25566' }),
+    ruleFactory({ id: 'rule-103', name: 'ptero-alloc-103', externalPort: '25567' }),
+    ruleFactory({ id: 'rule-104', name: 'ptero-alloc-104', externalPort: '25568' }),
+  ];
+
+  it('refuses to act on an empty allocation list', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { runCycle, service, udm } = createSyncContext({ allocations: [], rules: managedRules });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'DELETION GUARD TRIPPED for node 1: Pterodactyl returned no allocations',
+      ),
     );
+    const plan = await service.plan();
+    expect(plan.blockedNodes).toEqual([
+      { nodeId: 1, reason: expect.stringContaining('ALLOW_EMPTY_ALLOCATIONS') },
+    ]);
+  });
+
+  it('skips every change on the node when the deletion percentage trips', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 900, port: 30000 }),
+      ],
+      rules: managedRules,
+      syncOverrides: {
+        deletionGuard: { maxDeletionPercent: 50, allowEmptyAllocations: false, override: false },
+      },
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+  });
+
+  it('lets pending deletions through when the override is set', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [],
+      rules: managedRules,
+      syncOverrides: {
+        deletionGuard: { maxDeletions: 1, allowEmptyAllocations: false, override: true },
+      },
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(4);
     expect(warnSpy).toHaveBeenCalledWith(
-      '[sync] Allocation 999 missing target IP mapping; skipping creation',
+      expect.stringContaining('FORCE_DELETIONS set; allowing 4 deletion(s) on node 1'),
     );
   });
 });
 
-describe('SyncService lifecycle', () => {
-  it('starts once and stops the polling interval cleanly', async () => {
-    vi.useFakeTimers();
-    const { service, pterodactyl, udm } = createSyncContext({
-      allocations: [],
-      rules: [],
+describe('SyncService status', () => {
+  it('records the last cycle and client readiness', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const { runCycle, service } = createSyncContext({
+      allocations: [allocationFactory({ id: 404, port: 27015 })],
+      rules: [ruleFactory({ id: 'rule-303', name: 'ptero-alloc-303' })],
+    });
+
+    expect(service.isReady()).toBe(false);
+
+    await runCycle();
+
+    const status = service.getStatus();
+    expect(service.isReady()).toBe(true);
+    expect(status.lastCycle).toMatchObject({
+      result: 'success',
+      created: 1,
+      updated: 0,
+      deleted: 1,
+      error: null,
     });
+    expect(status.lastSuccessfulCycleAt).toBe(status.lastCycle?.finishedAt);
+    expect(status.clients.router.lastError).toBeNull();
+  });
+
+  it('exports cycle and per-node metrics', async () => {
     vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    metricsRegistry.resetMetrics();
+
+    const { runCycle } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 404, ip: '203.0.113.40', port: 27015 }),
+      ],
+      rules: [ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101', internalIp: '10.0.9.9' })],
+      configOverrides: {
+        defaultTargetIp: undefined,
+        targetIpMap: { '198.51.100.10': '10.0.1.10' },
+      },
+    });
 
-    service.start();
-    await Promise.resolve();
+    await runCycle();
 
-    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
-    expect(udm.listPortForwards).toHaveBeenCalledTimes(1);
+    const output = await metricsRegistry.metrics();
+    expect(output).toContain('ptero_udm_sync_cycles_total{result="success"} 1');
+    expect(output).toContain('ptero_udm_sync_cycle_duration_seconds_count 1');
+    expect(output).toContain('ptero_udm_sync_allocations{node="1"} 2');
+    expect(output).toContain('ptero_udm_sync_managed_rules{node="1"} 1');
+    expect(output).toContain('ptero_udm_sync_pending_changes{node="1",action="update"} 1');
+    expect(output).toContain('ptero_udm_sync_allocations_missing_target_total{node="1"} 1');
+  });
 
-    service.start();
-    await Promise.resolve();
+  it('keeps the last error of each client', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
 
-    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
+    const { runCycle, service, udm } = createSyncContext({});
+    udm.listPortForwards.mockRejectedValue(new Error('UDM unreachable'));
 
-    service.stop();
-    vi.advanceTimersByTime(5_000);
-    await Promise.resolve();
+    await expect(runCycle()).rejects.toThrow('UDM unreachable');
 
-    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
-    vi.useRealTimers();
+    const status = service.getStatus();
+    expect(status.lastCycle).toMatchObject({ result: 'failed', error: 'UDM unreachable' });
+    expect(status.lastSuccessfulCycleAt).toBeNull();
+    expect(status.clients.router).toMatchObject({
+      ready: false,
+      lastError: { message: 'UDM unreachable' },
+    });
+    expect(service.isReady()).toBe(false);
   });
+});
 
-  it('ignores stop calls when no interval is active', () => {
-    const { service } = createSyncContext({
-      allocations: [],
-      rules: [],
+describe('SyncService multi-node sync', () => {
+  it('reconciles each node with its own scoped prefix', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const { runCycle, udm, pterodactyl } = createSyncContext({
+      allocations: {
+        1: [allocationFactory({ id: 101, port: 25565 })],
+        2: [allocationFactory({ id: 202, port: 25570 })],
+      },
+      rules: [
+        ruleFactory({ id: 'rule-1-101', name: 'ptero-alloc-1-101' }),
+        ruleFactory({ id: 'rule-1-303', name: 'ptero-alloc-1-303' }),
+        ruleFactory({ id: 'rule-legacy', name: 'ptero-alloc-404' }),
+      ],
+      pterodactylOverrides: { nodes: [1, 2] },
     });
-    const clearSpy = vi.spyOn(global, 'clearInterval');
 
-    service.stop();
+    await runCycle();
 
-    expect(clearSpy).not.toHaveBeenCalled();
+    expect(pterodactyl.listAllocations).toHaveBeenCalledWith(1, anySignal);
+    expect(pterodactyl.listAllocations).toHaveBeenCalledWith(2, anySignal);
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-1-303', anySignal);
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-2-202', externalPort: 25570 }),
+      anySignal,
+    );
   });
 
-  it('skips sync cycles while one is already running', async () => {
-    const { service, pterodactyl, udm } = createSyncContext({
-      allocations: [],
-      rules: [],
-    });
+  it('leaves rules of a failing node untouched while syncing the others', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
     const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
 
-    const runner = service as unknown as { runSyncCycle: () => Promise<void>; syncing: boolean };
-    runner.syncing = true;
-    await runner.runSyncCycle();
+    const { runCycle, udm } = createSyncContext({
+      allocations: {
+        1: new Error('panel unavailable'),
+        2: [allocationFactory({ id: 201, port: 25590 })],
+      },
+      rules: [
+        ruleFactory({ id: 'rule-1-101', name: 'ptero-alloc-1-101' }),
+        ruleFactory({ id: 'rule-2-202', name: 'ptero-alloc-2-202' }),
+      ],
+      pterodactylOverrides: { nodes: [1, 2] },
+    });
 
-    expect(pterodactyl.listAllocations).not.toHaveBeenCalled();
-    expect(udm.listPortForwards).not.toHaveBeenCalled();
-    expect(warnSpy).toHaveBeenCalledWith('[sync] Previous cycle still running, skipping this tick');
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-2-202', anySignal);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\[sync\] Node 1 failed .*error="panel unavailable"/),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[sync] Cycle completed with failures on nodes 1'),
+    );
   });
-});
 
-describe('SyncService.isRuleOutOfSync', () => {
-  const requestFactory = (): PortForwardRequest => ({
-    name: 'ptero-alloc-1',
-    enabled: true,
-    externalPort: 25565,
-    internalPort: 25565,
-    internalIp: '10.0.1.10',
-    protocol: 'tcp_udp',
-    source: 'any',
-    destination: 'any',
-    wanIp: 'any',
+  it('discovers every panel node and applies per-node settings', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const { runCycle, udm, pterodactyl } = createSyncContext({
+      allocations: {
+        3: [allocationFactory({ id: 301, port: 27015 })],
+        4: [allocationFactory({ id: 401, port: 27016 })],
+      },
+      pterodactylOverrides: {
+        nodes: 'all',
+        nodeSettings: {
+          '4': { namePrefix: 'edge-', targetIpDefault: '10.0.4.10' },
+        },
+      },
+    });
+    pterodactyl.listNodes.mockResolvedValue([
+      { id: 3, name: 'wings-3' },
+      { id: 4, name: 'wings-4' },
+    ]);
+
+    await runCycle();
+
+    expect(pterodactyl.listNodes).toHaveBeenCalledOnce();
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-3-301', internalIp: '10.0.1.10' }),
+      anySignal,
+    );
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'edge-401', internalIp: '10.0.4.10' }),
+      anySignal,
+    );
   });
 
-  const getChecker = (service: SyncService) =>
-    (
-      service as unknown as {
-        isRuleOutOfSync: (rule: PortForwardRule, target: PortForwardRequest) => boolean;
-      }
-    ).isRuleOutOfSync.bind(service);
+  it('refuses to sync when node prefixes overlap', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
 
-  it('returns false when rule state matches target', () => {
-    const service = createService();
-    const isOutOfSync = getChecker(service);
-    const rule = ruleFactory({
-      internalIp: '10.0.1.10',
-      internalPort: '25565',
-      externalPort: '25565',
-      enabled: true,
-      protocol: 'tcp_udp',
-      source: 'any',
-      destination: 'any',
-      wanIp: 'any',
+    const { runCycle, udm } = createSyncContext({
+      pterodactylOverrides: {
+        nodes: [1, 2],
+        nodeSettings: {
+          '1': { namePrefix: 'ptero-' },
+          '2': { namePrefix: 'ptero-eu-' },
+        },
+      },
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(false);
+    await expect(runCycle()).rejects.toThrow(/overlaps with 'ptero-eu-' of node 2/);
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
   });
+});
 
-  it('detects internal port mismatches', () => {
-    const service = createService();
-    const isOutOfSync = getChecker(service);
-    const rule = ruleFactory({
-      internalIp: '10.0.1.10',
-      internalPort: '25564',
+describe('SyncService port ranges', () => {
+  const rangeContext = (allocations: Allocation[], rules: PortForwardRule[] = []) =>
+    createSyncContext({ allocations, rules, syncOverrides: { mergePortRanges: true } });
+
+  const consecutive = (count: number, firstId = 101, firstPort = 25565) =>
+    Array.from({ length: count }, (_, index) =>
+      allocationFactory({ id: firstId + index, port: firstPort + index }),
+    );
+
+  it('merges consecutive allocations with the same target into range forwards', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = rangeContext(
+      [
+        ...consecutive(3),
+        allocationFactory({ id: 110, port: 25570 }),
+        allocationFactory({ id: 111, port: 25571, ip: '198.51.100.20' }),
+      ],
+      [],
+    );
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(2);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'ptero-alloc-101-103',
+        externalPort: 25565,
+        externalPortEnd: 25567,
+        internalPort: 25565,
+        internalPortEnd: 25567,
+      }),
+      anySignal,
+    );
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-110-111', externalPortEnd: 25571 }),
+      anySignal,
+    );
+  });
+
+  it('keeps separate forwards for different target IPs', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 102, port: 25566, ip: '198.51.100.20' }),
+      ],
+      configOverrides: { targetIpMap: { '198.51.100.20': '10.0.1.20' } },
+      syncOverrides: { mergePortRanges: true },
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    await runCycle();
+
+    const created = udm.createPortForward.mock.calls.map(([input]) => input);
+    expect(created).toEqual([
+      expect.objectContaining({ name: 'ptero-alloc-101', internalIp: '10.0.1.10' }),
+      expect.objectContaining({ name: 'ptero-alloc-102', internalIp: '10.0.1.20' }),
+    ]);
+    expect(created[0]).not.toHaveProperty('externalPortEnd');
   });
 
-  it('detects external port mismatches', () => {
-    const service = createService();
-    const isOutOfSync = getChecker(service);
-    const rule = ruleFactory({
-      internalIp: '10.0.1.10',
-      internalPort: '25565',
-      externalPort: '25564',
+  it('splits a range when an allocation in the middle disappears', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rangeRule = ruleFactory({
+      id: 'rule-range',
+      name: 'ptero-alloc-101-104',
+      externalPort: '25565-25568',
+      internalPort: '25565-25568',
+    });
+    const allocations = consecutive(4).filter((allocation) => allocation.id !== 103);
+
+    const { runCycle, service, udm } = rangeContext(allocations, [rangeRule]);
+    const plan = await service.plan();
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      rangeRule,
+      expect.objectContaining({
+        name: 'ptero-alloc-101-102',
+        externalPort: 25565,
+        externalPortEnd: 25566,
+      }),
+      anySignal,
+    );
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-104', externalPort: 25568 }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(plan.changes[0]).toMatchObject({
+      action: 'update',
+      allocationId: 101,
+      changes: [
+        { field: 'name', from: 'ptero-alloc-101-104', to: 'ptero-alloc-101-102' },
+        { field: 'internalPort', from: '25565-25568', to: '25565-25566' },
+        { field: 'externalPort', from: '25565-25568', to: '25565-25566' },
+      ],
     });
+  });
+
+  it('re-merges single forwards into a range', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rules = [101, 102, 103].map((id, index) =>
+      ruleFactory({
+        id: `rule-${id}`,
+        name: `ptero-alloc-${id}`,
+        externalPort: String(25565 + index),
+        internalPort: String(25565 + index),
+      }),
+    );
+
+    const { runCycle, udm } = rangeContext(consecutive(3), rules);
+    await runCycle();
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      rules[0],
+      expect.objectContaining({ name: 'ptero-alloc-101-103', externalPortEnd: 25567 }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-102', anySignal);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-103', anySignal);
+    expect(udm.createPortForward).not.toHaveBeenCalled();
   });
 
-  it('detects disabled rules when target expects enabled', () => {
-    const service = createService();
-    const isOutOfSync = getChecker(service);
-    const rule = ruleFactory({
-      internalIp: '10.0.1.10',
-      internalPort: '25565',
-      externalPort: '25565',
-      enabled: false,
+  it('leaves a range in sync untouched and ignores range-like names on single ports', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rangeRule = ruleFactory({
+      id: 'rule-range',
+      name: 'ptero-alloc-101-103',
+      externalPort: '25565-25567',
+      internalPort: '25565-25567',
+    });
+    const foreign = ruleFactory({ id: 'rule-foreign', name: 'ptero-alloc-2-300' });
+
+    const { runCycle, udm } = rangeContext(consecutive(3), [rangeRule, foreign]);
+    await runCycle();
+
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(udm.updatePortForward).not.toHaveBeenCalled();
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("could not parse allocation id from rule 'ptero-alloc-2-300'"),
+    );
+  });
+});
+
+describe('SyncService allocation note directives', () => {
+  it('applies protocol, source and target overrides from the notes', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({
+          id: 101,
+          notes: 'Bedrock\nudm: proto=udp source=192.0.2.0/24 ip=10.0.2.2',
+        }),
+      ],
+      configOverrides: { defaultTargetIp: undefined },
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'ptero-alloc-101',
+        protocol: 'udp',
+        source: '192.0.2.0/24',
+        internalIp: '10.0.2.2',
+        enabled: true,
+      }),
+      anySignal,
+    );
+  });
+
+  it('removes forwards of skipped allocations and disables others in place', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    metricsRegistry.resetMetrics();
+    const skippedRule = ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101' });
+    const disabledRule = ruleFactory({
+      id: 'rule-102',
+      name: 'ptero-alloc-102',
+      externalPort: '25566',
+      internalPort: '25566',
+    });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, notes: 'udm: skip' }),
+        allocationFactory({ id: 102, port: 25566, notes: 'udm: disable' }),
+      ],
+      rules: [skippedRule, disabledRule],
+    });
+
+    const plan = await service.plan();
+    await runCycle();
+
+    expect(plan.skipped).toEqual([
+      {
+        nodeId: 1,
+        allocationId: 101,
+        cause: 'excluded',
+        reason: "excluded by 'udm: skip' in allocation notes",
+      },
+    ]);
+    // Deliberately skipped allocations are not missing a target.
+    expect(await metricsRegistry.metrics()).not.toContain(
+      'ptero_udm_sync_allocations_missing_target_total{node="1"}',
+    );
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-101', anySignal);
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      disabledRule,
+      expect.objectContaining({ name: 'ptero-alloc-102', enabled: false }),
+      anySignal,
+    );
+    expect(plan.changes).toContainEqual(
+      expect.objectContaining({
+        action: 'update',
+        allocationId: 102,
+        changes: [{ field: 'enabled', from: 'true', to: 'false' }],
+      }),
+    );
+  });
+
+  it('warns about malformed directives and falls back to the defaults', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101, notes: 'udm: proto=sctp' })],
+    });
+
+    await runCycle();
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Allocation 101 notes: unknown protocol 'sctp'; expected tcp, udp or tcp_udp",
+      ),
+    );
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ protocol: 'tcp_udp' }),
+      anySignal,
+    );
+  });
+});
+
+describe('SyncService assigned allocations', () => {
+  const allocations = [
+    allocationFactory({ id: 101, port: 25565 }),
+    allocationFactory({ id: 102, port: 25566, assigned: false }),
+    allocationFactory({ id: 103, port: 25567, assigned: false }),
+  ];
+  const unassignedRule = ruleFactory({
+    id: 'rule-102',
+    name: 'ptero-alloc-102',
+    externalPort: '25566',
+    internalPort: '25566',
+  });
+
+  it('forwards only assigned allocations and removes rules of unassigned ones', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations,
+      rules: [unassignedRule],
+      syncOverrides: { onlyAssignedAllocations: true },
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-101' }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-102', anySignal);
+  });
+
+  it('forwards every allocation when the option is off', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({ allocations, rules: [unassignedRule] });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(2);
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+  });
+});
+
+describe('SyncService inactive servers', () => {
+  const serverFactory = (overrides: Partial<AllocationServer> = {}): AllocationServer => ({
+    id: 7,
+    uuid: '5f1c2a9e-0000-4000-8000-000000000007',
+    identifier: '5f1c2a9e',
+    name: 'Survival',
+    suspended: false,
+    ...overrides,
+  });
+
+  it('keeps forwards of suspended servers but disables them', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const suspended = serverFactory({ suspended: true });
+    const existing = ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101' });
+    const { runCycle, pterodactyl, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565, server: suspended }),
+        allocationFactory({ id: 102, port: 25566, server: suspended }),
+      ],
+      rules: [existing],
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      existing,
+      expect.objectContaining({ name: 'ptero-alloc-101', enabled: false }),
+      anySignal,
+    );
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-102', enabled: false }),
+      anySignal,
+    );
+    expect(pterodactyl.getServerPowerState).not.toHaveBeenCalled();
+  });
+
+  it('disables forwards of offline servers when the power state is available', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { runCycle, pterodactyl, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565, server: serverFactory() }),
+        allocationFactory({ id: 102, port: 25566, server: serverFactory() }),
+        allocationFactory({
+          id: 201,
+          port: 25570,
+          server: serverFactory({ id: 8, identifier: 'running1', name: 'Lobby' }),
+        }),
+        allocationFactory({
+          id: 301,
+          port: 25580,
+          server: serverFactory({ id: 9, identifier: 'broken01', name: 'Creative' }),
+        }),
+      ],
+    });
+    pterodactyl.supportsPowerState = true;
+    pterodactyl.getServerPowerState.mockImplementation(async (identifier: string) => {
+      if (identifier === 'broken01') {
+        throw new Error('Request failed with status code 403');
+      }
+      return identifier === 'running1' ? 'running' : 'offline';
+    });
+
+    await runCycle();
+
+    expect(pterodactyl.getServerPowerState).toHaveBeenCalledTimes(3);
+    const enabledByName = Object.fromEntries(
+      udm.createPortForward.mock.calls.map(([input]) => [input.name, input.enabled]),
+    );
+    expect(enabledByName).toEqual({
+      'ptero-alloc-101': false,
+      'ptero-alloc-102': false,
+      'ptero-alloc-201': true,
+      'ptero-alloc-301': true,
+    });
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Unable to read power state of server 'Creative'; leaving its forwards enabled",
+      ),
+    );
+  });
+});
+
+describe('SyncService rule name templates', () => {
+  const template = '{prefix}{allocationId} {serverName} ({node})';
+  const server: AllocationServer = {
+    id: 7,
+    uuid: '5f1c2a9e-0000-4000-8000-000000000007',
+    identifier: '5f1c2a9e',
+    name: 'Survival',
+    suspended: false,
+  };
+
+  it('names new rules from the template and renders missing servers as blanks', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565, server }),
+        allocationFactory({ id: 102, port: 25566 }),
+      ],
+      configOverrides: { nameTemplate: `${template} {serverIdentifier}:{port}` },
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward.mock.calls.map(([input]) => input.name)).toEqual([
+      'ptero-alloc-101 Survival (1) 5f1c2a9e:25565',
+      'ptero-alloc-102 (1) :25566',
+    ]);
+  });
+
+  it('renames existing rules when the template or the server name changes', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const plain = ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101' });
+    const stale = ruleFactory({
+      id: 'rule-102',
+      name: 'ptero-alloc-102 Old name (1)',
+      externalPort: '25566',
+      internalPort: '25566',
+    });
+    const current = ruleFactory({
+      id: 'rule-103',
+      name: 'ptero-alloc-103 Survival (1)',
+      externalPort: '25567',
+      internalPort: '25567',
+    });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565, server }),
+        allocationFactory({ id: 102, port: 25566, server }),
+        allocationFactory({ id: 103, port: 25567, server }),
+      ],
+      rules: [plain, stale, current],
+      configOverrides: { nameTemplate: template },
+    });
+
+    const plan = await service.plan();
+    await runCycle();
+
+    expect(plan.changes).toEqual([
+      expect.objectContaining({
+        allocationId: 101,
+        changes: [{ field: 'name', from: 'ptero-alloc-101', to: 'ptero-alloc-101 Survival (1)' }],
+      }),
+      expect.objectContaining({
+        allocationId: 102,
+        changes: [
+          {
+            field: 'name',
+            from: 'ptero-alloc-102 Old name (1)',
+            to: 'ptero-alloc-102 Survival (1)',
+          },
+        ],
+      }),
+    ]);
+    expect(udm.updatePortForward).toHaveBeenCalledTimes(2);
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+  });
+
+  it('owns templated rules by the id right after the prefix', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const orphan = ruleFactory({ id: 'rule-104', name: 'ptero-alloc-104 Survival (1)' });
+    const unrelated = ruleFactory({ id: 'rule-x', name: 'ptero-alloc-104x' });
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101, server })],
+      rules: [
+        ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101 Survival (1)' }),
+        orphan,
+        unrelated,
+      ],
+      configOverrides: { nameTemplate: template },
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-104', anySignal);
+    expect(udm.updatePortForward).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("could not parse allocation id from rule 'ptero-alloc-104x'"),
+    );
+  });
+
+  it('names range forwards after their first allocation', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rangeRule = ruleFactory({
+      id: 'rule-range',
+      name: 'ptero-alloc-101-102 Survival (1)',
+      externalPort: '25565-25566',
+      internalPort: '25565-25566',
+    });
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565, server }),
+        allocationFactory({ id: 102, port: 25566, server }),
+        allocationFactory({ id: 103, port: 25567, server }),
+      ],
+      rules: [rangeRule],
+      configOverrides: { nameTemplate: template },
+      syncOverrides: { mergePortRanges: true },
+    });
+
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      rangeRule,
+      expect.objectContaining({ name: 'ptero-alloc-101-103 Survival (1)', externalPortEnd: 25567 }),
+      anySignal,
+    );
+  });
+});
+
+describe('SyncService migration and adoption', () => {
+  it('renames rules that still use a migrated prefix', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const legacy = ruleFactory({ id: 'rule-old-101', name: 'old-101', internalIp: '10.0.9.9' });
+    const leftover = ruleFactory({ id: 'rule-old-999', name: 'old-999', externalPort: '30000' });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 102, port: 25566 }),
+      ],
+      rules: [legacy, leftover],
+      syncOverrides: { migratePrefixes: ['old-'] },
+    });
+
+    const plan = await service.plan();
+    await runCycle();
+
+    expect(plan.changes[0]).toEqual({
+      action: 'update',
+      nodeId: 1,
+      allocationId: 101,
+      ruleId: 'rule-old-101',
+      name: 'ptero-alloc-101',
+      changes: [
+        { field: 'name', from: 'old-101', to: 'ptero-alloc-101' },
+        { field: 'internalIp', from: '10.0.9.9', to: '10.0.1.10' },
+      ],
+    });
+    expect(udm.updatePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      legacy,
+      expect.objectContaining({ name: 'ptero-alloc-101', internalIp: '10.0.1.10' }),
+      anySignal,
+    );
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-102' }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+  });
+
+  it('adopts manual forwards with the same ports, target and protocol', async () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const manual = ruleFactory({ id: 'manual-1', name: 'Minecraft', wanIp: 'wan' });
+    const otherProtocol = ruleFactory({
+      id: 'manual-2',
+      name: 'Voice',
+      externalPort: '25566',
+      internalPort: '25566',
+      protocol: 'udp',
+    });
+    const allocations = [
+      allocationFactory({ id: 101, port: 25565 }),
+      allocationFactory({ id: 102, port: 25566 }),
+    ];
+
+    const adopting = createSyncContext({
+      allocations,
+      rules: [manual, otherProtocol],
+      syncOverrides: { adoptUnmanagedRules: true },
+    });
+    await adopting.runCycle();
+
+    expect(adopting.udm.updatePortForward).toHaveBeenCalledTimes(1);
+    expect(adopting.udm.updatePortForward).toHaveBeenCalledWith(
+      manual,
+      expect.objectContaining({ name: 'ptero-alloc-101', wanIp: 'any' }),
+      anySignal,
+    );
+    // Different protocol: not adopted, and its port is taken.
+    expect(adopting.udm.createPortForward).not.toHaveBeenCalled();
+    expect(adopting.service.getStatus().lastCycle?.conflicts).toEqual([
+      expect.objectContaining({ allocationId: 102, ruleId: 'manual-2' }),
+    ]);
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Adopting rule 'Minecraft' for allocation 101 (matching port, target and protocol)",
+      ),
+    );
+
+    const ignoring = createSyncContext({ allocations, rules: [manual, otherProtocol] });
+    const plan = await ignoring.service.plan();
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.conflicts.map(({ allocationId, ruleId }) => [allocationId, ruleId])).toEqual([
+      [101, 'manual-1'],
+      [102, 'manual-2'],
+    ]);
+  });
+
+  it('never adopts a rule owned by another node or adopts a rule twice', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const otherNode = ruleFactory({
+      id: 'rule-2-201',
+      name: 'ptero-alloc-2-201',
+      externalPort: '25570',
+      internalPort: '25570',
+    });
+    const manual = ruleFactory({ id: 'manual-1', name: 'Minecraft' });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: {
+        1: [allocationFactory({ id: 101, port: 25565 })],
+        2: [
+          allocationFactory({ id: 201, port: 25570 }),
+          allocationFactory({ id: 202, port: 25565 }),
+        ],
+      },
+      rules: [otherNode, manual],
+      pterodactylOverrides: { nodes: [1, 2] },
+      syncOverrides: { adoptUnmanagedRules: true },
+    });
+
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      manual,
+      expect.objectContaining({ name: 'ptero-alloc-1-101' }),
+      anySignal,
+    );
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(service.getStatus().lastCycle?.conflicts).toEqual([
+      expect.objectContaining({ nodeId: 2, allocationId: 202, ruleId: 'manual-1' }),
+    ]);
+  });
+});
+
+describe('SyncService port conflicts', () => {
+  it('skips allocations whose WAN port an unmanaged rule already forwards', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manual = ruleFactory({
+      id: 'manual-cs',
+      name: 'Counter-Strike',
+      externalPort: '27010-27020',
+      internalPort: '27010-27020',
+      internalIp: '10.0.1.99',
+      protocol: 'udp',
+    });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 27015 }),
+        allocationFactory({ id: 102, port: 27030 }),
+      ],
+      rules: [manual],
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-102' }),
+      anySignal,
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Port conflict, not forwarding allocation 101: 27015/tcp_udp on WAN any overlaps rule 'Counter-Strike' (27010-27020/udp on WAN any)",
+      ),
+    );
+    expect(service.getStatus().lastCycle?.conflicts).toEqual([
+      expect.objectContaining({ nodeId: 1, allocationId: 101, ruleId: 'manual-cs' }),
+    ]);
+    expect(
+      await metricsRegistry.getSingleMetricAsString('ptero_udm_sync_port_conflicts'),
+    ).toContain('ptero_udm_sync_port_conflicts{node="1"} 1');
+  });
+
+  it('holds back updates that would move a managed rule onto a taken port', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const managed = ruleFactory({ id: 'rule-101', externalPort: '25000', internalPort: '25000' });
+    const otherNode = ruleFactory({ id: 'rule-2-201', name: 'ptero-alloc-2-201' });
+    const { service } = createSyncContext({
+      allocations: { 1: [allocationFactory({ id: 101, port: 25565 })], 2: [] },
+      rules: [managed, otherNode],
+      pterodactylOverrides: { nodes: [1] },
+    });
+
+    const plan = await service.plan();
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.conflicts).toEqual([
+      expect.objectContaining({ allocationId: 101, ruleName: 'ptero-alloc-2-201' }),
+    ]);
+  });
+
+  it('ignores disabled rules and does not check disabled forwards', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const disabledManual = ruleFactory({ id: 'manual-1', name: 'Old', enabled: false });
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 102, port: 25566, notes: 'udm: disable' }),
+      ],
+      rules: [
+        disabledManual,
+        ruleFactory({ id: 'manual-2', name: 'Voice', externalPort: '25566' }),
+      ],
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('SyncService rule cleanup', () => {
+  it('keeps the closest duplicate and deletes the others', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const stale = ruleFactory({ id: 'rule-101-stale', internalPort: '25000' });
+    const current = ruleFactory({ id: 'rule-101-current' });
+    const disabled = ruleFactory({ id: 'rule-101-disabled', enabled: false });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101 })],
+      rules: [stale, disabled, current],
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(2);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-101-stale', anySignal);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-101-disabled', anySignal);
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(udm.updatePortForward).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Rule 'ptero-alloc-101' duplicates 'ptero-alloc-101' for allocation 101; removing it",
+      ),
+    );
+    expect(service.getStatus().lastCycle?.cleanup).toEqual([
+      {
+        nodeId: 1,
+        allocationId: 101,
+        ruleId: 'rule-101-stale',
+        ruleName: 'ptero-alloc-101',
+        issue: 'duplicate',
+        action: 'delete',
+      },
+      expect.objectContaining({ ruleId: 'rule-101-disabled', issue: 'duplicate' }),
+    ]);
+  });
+
+  it('only reports malformed rules under the warn policy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const malformed = ruleFactory({
+      id: 'rule-bad',
+      name: 'ptero-alloc-lobby',
+      externalPort: '30000',
+    });
+    const { service } = createSyncContext({ allocations: [], rules: [malformed] });
+
+    const plan = await service.plan();
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.cleanup).toEqual([
+      expect.objectContaining({ allocationId: null, issue: 'malformed', action: 'warn' }),
+    ]);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('policy=warn'));
+  });
+
+  it('deletes malformed rules under the delete policy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const malformed = ruleFactory({
+      id: 'rule-bad',
+      name: 'ptero-alloc-lobby',
+      externalPort: '30000',
+    });
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory()],
+      rules: [ruleFactory(), malformed],
+      syncOverrides: { malformedRulePolicy: 'delete' },
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-bad', anySignal);
+  });
+
+  it('counts cleanup deletes against the deletion guard', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory()],
+      rules: [
+        ruleFactory(),
+        ruleFactory({ id: 'rule-101-copy', name: 'ptero-alloc-101', enabled: false }),
+        ruleFactory({ id: 'rule-bad-1', name: 'ptero-alloc-lobby', externalPort: '30000' }),
+        ruleFactory({ id: 'rule-bad-2', name: 'ptero-alloc-hub', externalPort: '30001' }),
+      ],
+      syncOverrides: {
+        malformedRulePolicy: 'delete',
+        deletionGuard: { maxDeletionPercent: 50, allowEmptyAllocations: false, override: false },
+      },
+    });
+
+    await runCycle();
+
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '3 of 4 managed rule(s) (75.0%) would be deleted, exceeding MAX_DELETION_PERCENT=50',
+      ),
+    );
+  });
+
+  it('quarantines malformed rules by disabling them under the disable policy', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const malformed = ruleFactory({
+      id: 'rule-bad',
+      name: 'ptero-alloc-lobby',
+      externalPort: '30000-30010',
+      internalPort: '30000-30010',
+    });
+    const quarantined = ruleFactory({ id: 'rule-old', name: 'ptero-alloc-old', enabled: false });
+    const unsupported = ruleFactory({
+      id: 'rule-odd',
+      name: 'ptero-alloc-odd',
+      externalPort: '1,2',
+    });
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [],
+      rules: [malformed, quarantined, unsupported],
+      syncOverrides: { malformedRulePolicy: 'disable' },
+    });
+
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      malformed,
+      expect.objectContaining({
+        name: 'ptero-alloc-lobby',
+        enabled: false,
+        externalPort: 30000,
+        externalPortEnd: 30010,
+        internalPortEnd: 30010,
+      }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Cannot disable rule 'ptero-alloc-odd': unsupported port value"),
+    );
+    expect(service.getStatus().lastCycle?.cleanup).toEqual([
+      expect.objectContaining({ ruleId: 'rule-bad', action: 'disable' }),
+      expect.objectContaining({ ruleId: 'rule-odd', action: 'warn' }),
+    ]);
+  });
+});
+
+describe('SyncService deletion grace period', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'grace-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const graceContext = (
+    deletionGrace: Partial<AppConfig['sync']['deletionGrace']>,
+    allocations: Allocation[],
+    rules: PortForwardRule[],
+  ) =>
+    createSyncContext({
+      allocations,
+      rules,
+      syncOverrides: {
+        deletionGrace: {
+          ...baseConfig.sync.deletionGrace,
+          statePath: join(dir, 'pending.json'),
+          ...deletionGrace,
+        },
+      },
+    });
+
+  const readPending = async () => JSON.parse(await readFile(join(dir, 'pending.json'), 'utf8'));
+  // Keeps the node from looking empty to the deletion guard.
+  const kept = allocationFactory({ id: 202, port: 25570 });
+  const keptRule = ruleFactory({
+    id: 'rule-202',
+    name: 'ptero-alloc-202',
+    externalPort: '25570',
+    internalPort: '25570',
+  });
+
+  it('keeps the pending entries of nodes skipped by a shutdown', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const statePath = join(dir, 'pending.json');
+    const skippedEntry = {
+      nodeId: 2,
+      allocationId: 303,
+      ruleId: 'rule-2-303',
+      ruleName: 'ptero-alloc-2-303',
+      missingSince: '2026-01-01T00:00:00.000Z',
+      missingCycles: 1,
+    };
+    await writeFile(statePath, JSON.stringify([skippedEntry]), 'utf8');
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: {
+        1: [allocationFactory({ id: 101 }), allocationFactory({ id: 202, port: 25570 })],
+        2: [],
+      },
+      rules: [
+        ruleFactory({ id: 'rule-1-104', name: 'ptero-alloc-1-104', externalPort: '25568' }),
+        ruleFactory({
+          id: 'rule-1-202',
+          name: 'ptero-alloc-1-202',
+          externalPort: '25570',
+          internalPort: '25570',
+        }),
+        ruleFactory({ id: 'rule-2-303', name: 'ptero-alloc-2-303', externalPort: '25580' }),
+      ],
+      pterodactylOverrides: { nodes: [1, 2] },
+      syncOverrides: {
+        deletionGrace: { ...baseConfig.sync.deletionGrace, cycles: 3, statePath },
+      },
+    });
+    let releaseCreate: () => void = () => undefined;
+    udm.createPortForward.mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          releaseCreate = resolve;
+        }),
+    );
+
+    const cycle = runCycle();
+    await vi.waitFor(() => expect(udm.createPortForward).toHaveBeenCalled());
+    const stopping = service.stop();
+    releaseCreate();
+    await expect(stopping).resolves.toMatchObject({ skippedNodes: [2] });
+    await cycle;
+
+    expect(await readPending()).toEqual(
+      expect.arrayContaining([
+        skippedEntry,
+        expect.objectContaining({ nodeId: 1, ruleId: 'rule-1-104', missingCycles: 1 }),
+      ]),
+    );
+    expect(await readPending()).toHaveLength(2);
+  });
+
+  it('deletes rules folded into a merged range right away', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const singles = [101, 102, 103].map((id) =>
+      ruleFactory({
+        id: `rule-${id}`,
+        name: `ptero-alloc-${id}`,
+        externalPort: String(25464 + id),
+        internalPort: String(25464 + id),
+      }),
+    );
+    const { runCycle, udm } = createSyncContext({
+      allocations: [101, 102, 103].map((id) => allocationFactory({ id, port: 25464 + id })),
+      rules: singles,
+      syncOverrides: {
+        mergePortRanges: true,
+        deletionGrace: {
+          ...baseConfig.sync.deletionGrace,
+          cycles: 2,
+          statePath: join(dir, 'pending.json'),
+        },
+      },
+    });
+
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      singles[0],
+      expect.objectContaining({ name: 'ptero-alloc-101-103', externalPortEnd: 25567 }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-102', anySignal);
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-103', anySignal);
+  });
+
+  it('deletes the rule of a missing allocation right away when a new forward overlaps it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rangeRule = ruleFactory({
+      id: 'rule-range',
+      name: 'ptero-alloc-101-103',
+      externalPort: '25565-25567',
+      internalPort: '25565-25567',
+    });
+    const { runCycle, udm } = createSyncContext({
+      allocations: [102, 103].map((id) => allocationFactory({ id, port: 25464 + id })),
+      rules: [rangeRule],
+      syncOverrides: {
+        mergePortRanges: true,
+        deletionGrace: {
+          ...baseConfig.sync.deletionGrace,
+          cycles: 2,
+          statePath: join(dir, 'pending.json'),
+        },
+      },
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-102-103', externalPort: 25566 }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-range', anySignal);
+  });
+
+  it('keeps the elapsed entries of nodes held back by the deletion guard', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const statePath = join(dir, 'pending.json');
+    const elapsedEntry = {
+      nodeId: 1,
+      allocationId: 101,
+      ruleId: 'rule-101',
+      ruleName: 'ptero-alloc-101',
+      missingSince: '2026-01-01T00:00:00.000Z',
+      missingCycles: 1,
+    };
+    await writeFile(statePath, JSON.stringify([elapsedEntry]), 'utf8');
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [kept],
+      rules: [ruleFactory({ id: 'rule-101' }), keptRule],
+      syncOverrides: {
+        deletionGrace: { ...baseConfig.sync.deletionGrace, cycles: 1, statePath },
+        deletionGuard: { maxDeletions: 0, allowEmptyAllocations: false, override: false },
+      },
+    });
+
+    await runCycle();
+
+    expect(service.getStatus().lastCycle?.blockedNodes).toEqual([1]);
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(await readPending()).toEqual([elapsedEntry]);
+  });
+
+  it('keeps the rule of a missing allocation for the configured cycles across restarts', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rule = ruleFactory({ id: 'rule-101' });
+
+    const first = graceContext({ cycles: 1 }, [kept], [rule, keptRule]);
+    await first.runCycle();
+
+    expect(first.udm.deletePortForward).not.toHaveBeenCalled();
+    expect(first.udm.updatePortForward).not.toHaveBeenCalled();
+    expect(await readPending()).toEqual([
+      expect.objectContaining({
+        nodeId: 1,
+        allocationId: 101,
+        ruleId: 'rule-101',
+        missingCycles: 1,
+      }),
+    ]);
+    expect(first.service.getStatus().lastCycle?.pendingDeletions).toEqual([
+      expect.objectContaining({ ruleId: 'rule-101', missingCycles: 1 }),
+    ]);
+
+    const restarted = graceContext({ cycles: 1 }, [kept], [rule, keptRule]);
+    await restarted.runCycle();
+
+    expect(restarted.udm.deletePortForward).toHaveBeenCalledWith('rule-101', anySignal);
+    expect(await readPending()).toEqual([]);
+  });
+
+  it('disables pending rules and re-enables them when the allocation returns', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const rule = ruleFactory({ id: 'rule-101' });
+    const { runCycle, pterodactyl, udm } = graceContext(
+      { cycles: 3, disableRules: true },
+      [],
+      [rule],
+    );
+
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      rule,
+      expect.objectContaining({ name: 'ptero-alloc-101', enabled: false, externalPort: 25565 }),
+      anySignal,
+    );
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+
+    udm.updatePortForward.mockClear();
+    udm.listPortForwards.mockResolvedValue([{ ...rule, enabled: false }]);
+    pterodactyl.listAllocations.mockResolvedValue([allocationFactory({ id: 101 })]);
+    await runCycle();
+
+    expect(udm.updatePortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'rule-101' }),
+      expect.objectContaining({ enabled: true }),
+      anySignal,
+    );
+    expect(await readPending()).toEqual([]);
+  });
+
+  it('waits for the configured minutes since the allocation went missing', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-05-01T12:00:00Z'));
+    const rule = ruleFactory({ id: 'rule-101' });
+    const { runCycle, udm } = graceContext({ minutes: 10 }, [kept], [rule, keptRule]);
+
+    await runCycle();
+    vi.setSystemTime(new Date('2026-05-01T12:09:00Z'));
+    await runCycle();
+
+    expect(udm.deletePortForward).not.toHaveBeenCalled();
+    expect(await readPending()).toEqual([
+      expect.objectContaining({ missingSince: '2026-05-01T12:00:00.000Z', missingCycles: 2 }),
+    ]);
+
+    vi.setSystemTime(new Date('2026-05-01T12:10:00Z'));
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-101', anySignal);
+  });
+
+  it('keeps pending entries of failed nodes and does not persist plans', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const rule = ruleFactory({ id: 'rule-101' });
+    const { runCycle, service, pterodactyl } = graceContext({ cycles: 2 }, [], [rule]);
+
+    await runCycle();
+    const plan = await service.plan();
+
+    expect(plan.pendingDeletions).toEqual([expect.objectContaining({ missingCycles: 2 })]);
+    expect(await readPending()).toEqual([expect.objectContaining({ missingCycles: 1 })]);
+
+    pterodactyl.listAllocations.mockRejectedValue(new Error('panel down'));
+    await runCycle();
+
+    expect(await readPending()).toEqual([expect.objectContaining({ missingCycles: 1 })]);
+  });
+
+  it('keeps the pending entry of a rule whose deletion failed', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const rule = ruleFactory({ id: 'rule-101' });
+    const { runCycle, udm } = graceContext({ cycles: 1 }, [kept], [rule, keptRule]);
+
+    await runCycle();
+    udm.deletePortForward.mockRejectedValueOnce(new Error('UDM rejected the delete'));
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-101', anySignal);
+    expect(await readPending()).toEqual([
+      expect.objectContaining({ ruleId: 'rule-101', missingCycles: 1 }),
+    ]);
+  });
+});
+
+describe('SyncService change application', () => {
+  it('finishes deletes before updates and creates reuse their ports', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const events: string[] = [];
+    let inFlight = 0;
+    let peak = 0;
+    const track = (label: string) => async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      events.push(`start ${label}`);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      events.push(`end ${label}`);
+      inFlight -= 1;
+    };
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 102, port: 25566 }),
+        allocationFactory({ id: 103, port: 25567 }),
+      ],
+      rules: [
+        ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101', internalIp: '10.0.9.9' }),
+        ruleFactory({ id: 'rule-201', name: 'ptero-alloc-201', externalPort: '25566' }),
+        ruleFactory({ id: 'rule-202', name: 'ptero-alloc-202', externalPort: '25567' }),
+        ruleFactory({ id: 'rule-203', name: 'ptero-alloc-203', externalPort: '25568' }),
+      ],
+      syncOverrides: { applyConcurrency: 2 },
+    });
+    udm.deletePortForward.mockImplementation((id: string) => track(id)());
+    udm.updatePortForward.mockImplementation((rule: PortForwardRule) => track(rule.id)());
+    udm.createPortForward.mockImplementation((input: PortForwardRequest) => track(input.name)());
+
+    await runCycle();
+
+    const lastDeleteEnd = Math.max(
+      ...['rule-201', 'rule-202', 'rule-203'].map((id) => events.indexOf(`end ${id}`)),
+    );
+    expect(events.indexOf('start rule-101')).toBeGreaterThan(lastDeleteEnd);
+    expect(events.indexOf('start ptero-alloc-102')).toBeGreaterThan(events.indexOf('end rule-101'));
+    expect(udm.deletePortForward).toHaveBeenCalledTimes(3);
+    expect(udm.createPortForward).toHaveBeenCalledTimes(2);
+    expect(peak).toBe(2);
+  });
+
+  it('reports progress while applying large change sets', async () => {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const allocations = Array.from({ length: 20 }, (_, index) =>
+      allocationFactory({ id: 500 + index, port: 30000 + index }),
+    );
+    const { runCycle, service, udm } = createSyncContext({
+      allocations,
+      syncOverrides: { applyConcurrency: 4 },
+    });
+    const progress: unknown[] = [];
+    udm.createPortForward.mockImplementation(async () => {
+      progress.push(service.getStatus().progress);
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(20);
+    expect(progress[0]).toEqual({ done: 0, total: 20 });
+    const progressLines = logSpy.mock.calls
+      .map(([line]) => String(line))
+      .filter((line) => line.includes('[sync] Applied '));
+    expect(progressLines).toHaveLength(10);
+    expect(progressLines[0]).toContain('Applied 2/20 changes on node 1');
+    expect(progressLines[9]).toContain('Applied 20/20 changes on node 1');
+    expect(service.getStatus().progress).toBeNull();
+  });
+});
+
+describe('SyncService change failures', () => {
+  const rules = [
+    ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101', internalIp: '10.0.9.9' }),
+    ruleFactory({ id: 'rule-303', name: 'ptero-alloc-303', externalPort: '25567' }),
+  ];
+  const allocations = [
+    allocationFactory({ id: 101, port: 25565 }),
+    allocationFactory({ id: 102, port: 25566 }),
+  ];
+
+  it('applies the remaining changes after one fails and reports it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { runCycle, service, udm } = createSyncContext({ allocations, rules });
+    udm.deletePortForward.mockRejectedValueOnce(new Error('rule is locked'));
+    udm.updatePortForward.mockRejectedValueOnce(new Error('invalid fwd'));
+
+    await runCycle();
+
+    expect(udm.deletePortForward).toHaveBeenCalledWith('rule-303', anySignal);
+    expect(udm.updatePortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-102' }),
+      anySignal,
+    );
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /\[sync\] Failed to update port forward 'ptero-alloc-101' .*error="invalid fwd"/,
+      ),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "[sync] Cycle completed with 2 failed change(s): delete 'ptero-alloc-303' (rule is locked), update 'ptero-alloc-101' (invalid fwd)",
+      ),
+    );
+    expect(service.getStatus().lastCycle).toMatchObject({
+      result: 'partial',
+      created: 1,
+      updated: 0,
+      deleted: 0,
+      failedNodes: [],
+      failedChanges: [
+        {
+          nodeId: 1,
+          action: 'delete',
+          allocationId: 303,
+          ruleId: 'rule-303',
+          ruleName: 'ptero-alloc-303',
+          error: 'rule is locked',
+          failures: 1,
+          backedOff: false,
+        },
+        expect.objectContaining({ action: 'update', ruleId: 'rule-101', error: 'invalid fwd' }),
+      ],
+    });
+    expect(
+      (await metricsRegistry.getSingleMetric('ptero_udm_sync_failed_changes_total')?.get())?.values,
+    ).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ labels: { node: '1', action: 'update' }, value: 1 }),
+      ]),
+    );
+  });
+
+  it('backs off a persistently failing change without holding back the others', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101, port: 25565 })],
+    });
+    udm.createPortForward.mockRejectedValue(new Error('port already in use'));
+
+    await runCycle();
+    await runCycle();
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(2);
+    expect(service.getStatus().lastCycle?.failedChanges).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        ruleName: 'ptero-alloc-101',
+        error: 'port already in use',
+        failures: 2,
+        backedOff: true,
+      }),
+    ]);
+
+    udm.createPortForward.mockResolvedValue(undefined);
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(3);
+    expect(service.getStatus().lastCycle).toMatchObject({
+      result: 'success',
+      created: 1,
+      failedChanges: [],
+    });
+  });
+
+  it('retries every cycle when the backoff is disabled', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101, port: 25565 })],
+      syncOverrides: { maxChangeBackoffCycles: 0 },
+    });
+    udm.createPortForward.mockRejectedValue(new Error('port already in use'));
+
+    await runCycle();
+    await runCycle();
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('SyncService audit journal', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const readJournal = async (path: string) =>
+    (await readFile(path, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  it('records every applied change with before and after payloads', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const auditLogPath = join(dir, 'nested', 'audit.jsonl');
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [
+        allocationFactory({ id: 101, port: 25565 }),
+        allocationFactory({ id: 102, port: 25566 }),
+      ],
+      rules: [
+        ruleFactory({
+          id: 'rule-101',
+          name: 'ptero-alloc-101',
+          internalIp: '10.0.9.9',
+          raw: { _id: 'rule-101', fwd: '10.0.9.9' } as never,
+        }),
+        ruleFactory({
+          id: 'rule-103',
+          name: 'ptero-alloc-103',
+          raw: { _id: 'rule-103' } as never,
+        }),
+      ],
+      auditLogPath,
+    });
+    udm.createPortForward.mockResolvedValue(
+      ruleFactory({ id: 'rule-102', name: 'ptero-alloc-102', externalPort: '25566' }),
+    );
+
+    await runCycle();
+
+    const entries = await readJournal(auditLogPath);
+    expect(entries).toEqual([
+      expect.objectContaining({
+        action: 'delete',
+        nodeId: 1,
+        allocationId: 103,
+        ruleId: 'rule-103',
+        before: { _id: 'rule-103' },
+        after: null,
+        outcome: 'success',
+        error: null,
+      }),
+      expect.objectContaining({
+        action: 'update',
+        allocationId: 101,
+        ruleId: 'rule-101',
+        before: { _id: 'rule-101', fwd: '10.0.9.9' },
+        after: { name: 'ptero-alloc-101', fwd: '10.0.1.10' },
+        outcome: 'success',
+      }),
+      expect.objectContaining({
+        action: 'create',
+        allocationId: 102,
+        ruleId: 'rule-102',
+        ruleName: 'ptero-alloc-102',
+        before: null,
+        after: { name: 'ptero-alloc-102', fwd: '10.0.1.10' },
+      }),
+    ]);
+    expect(Date.parse(entries[0].time)).not.toBeNaN();
+  });
+
+  it('records failed changes with their error', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const auditLogPath = join(dir, 'audit.jsonl');
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101 })],
+      auditLogPath,
+    });
+    udm.createPortForward.mockRejectedValueOnce(new Error('UDM rejected the rule'));
+
+    await runCycle();
+
+    expect(await readJournal(auditLogPath)).toEqual([
+      expect.objectContaining({
+        action: 'create',
+        allocationId: 101,
+        ruleId: null,
+        outcome: 'failure',
+        error: 'UDM rejected the rule',
+      }),
+    ]);
+  });
+
+  it('keeps applying changes when the journal cannot be written', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101 })],
+      auditLogPath: dir,
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[sync] Failed to write audit journal entry'),
+    );
+  });
+
+  it('writes nothing when the journal is disabled', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const { runCycle, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101 })],
+    });
+
+    await runCycle();
+
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
+
+describe('SyncService one-shot operations', () => {
+  it('runs a single cycle and returns its summary', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { service, udm } = createSyncContext({ allocations: [allocationFactory()] });
+
+    const summary = await service.syncOnce();
+
+    expect(summary).toMatchObject({ result: 'success', created: 1, updated: 0, deleted: 0 });
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(service.getStatus().startedAt).not.toBeNull();
+  });
+
+  it('lists router rules with the node and allocation owning them', async () => {
+    const rules = [
+      ruleFactory({ id: 'rule-1', name: 'ptero-alloc-1-101' }),
+      ruleFactory({ id: 'rule-2', name: 'ptero-alloc-2-oops' }),
+      ruleFactory({ id: 'rule-3', name: 'Minecraft (manual)' }),
+    ];
+    const { service } = createSyncContext({
+      rules,
+      pterodactylOverrides: { nodes: [1, 2] },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(service.listRules()).resolves.toEqual([
+      { rule: rules[0], nodeId: 1, allocationId: 101 },
+      { rule: rules[1], nodeId: 2, allocationId: null },
+      { rule: rules[2], nodeId: null, allocationId: null },
+    ]);
+  });
+
+  it('lists the allocations of every watched node', async () => {
+    const first = allocationFactory({ id: 101 });
+    const second = allocationFactory({ id: 202, port: 25570 });
+    const { service, pterodactyl } = createSyncContext({
+      allocations: { 1: [first], 2: [second] },
+      pterodactylOverrides: { nodes: [1, 2] },
+    });
+
+    await expect(service.listAllocations()).resolves.toEqual([
+      { nodeId: 1, allocations: [first] },
+      { nodeId: 2, allocations: [second] },
+    ]);
+    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(2);
+  });
+
+  it('prunes managed rules only and journals the deletes', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const directory = await mkdtemp(join(tmpdir(), 'prune-'));
+    const auditLogPath = join(directory, 'audit.jsonl');
+    const rules = [
+      ruleFactory({ id: 'rule-101', name: 'ptero-alloc-101' }),
+      ruleFactory({ id: 'rule-102', name: 'ptero-alloc-102' }),
+      ruleFactory({ id: 'rule-manual', name: 'Minecraft (manual)' }),
+    ];
+    const { service, udm } = createSyncContext({ rules, auditLogPath });
+    udm.deletePortForward.mockImplementation(async (id: string) => {
+      if (id === 'rule-102') {
+        throw new Error('rule is locked');
+      }
+    });
+
+    const failures = await service.prune(await service.listRules());
+
+    expect(udm.deletePortForward.mock.calls.map(([id]) => id)).toEqual(['rule-101', 'rule-102']);
+    expect(failures).toEqual([
+      expect.objectContaining({
+        action: 'delete',
+        nodeId: 1,
+        allocationId: 102,
+        ruleName: 'ptero-alloc-102',
+        error: 'rule is locked',
+      }),
+    ]);
+    const entries = (await readFile(auditLogPath, 'utf8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    await rm(directory, { recursive: true, force: true });
+    expect(entries.map(({ ruleId, outcome }) => [ruleId, outcome])).toEqual([
+      ['rule-101', 'success'],
+      ['rule-102', 'failure'],
+    ]);
+  });
+});
+
+describe('SyncService shutdown', () => {
+  const shutdownContext = (shutdownTimeoutMs: number) =>
+    createSyncContext({
+      allocations: {
+        1: [allocationFactory({ id: 101, port: 25565 })],
+        2: [allocationFactory({ id: 202, port: 25570 })],
+      },
+      rules: [ruleFactory({ id: 'rule-1-303', name: 'ptero-alloc-1-303' })],
+      pterodactylOverrides: { nodes: [1, 2] },
+      syncOverrides: { shutdownTimeoutMs },
+    });
+
+  it('finishes the node being applied and skips the remaining ones', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { runCycle, service, udm, pterodactyl } = shutdownContext(60_000);
+    let releaseDelete: () => void = () => undefined;
+    udm.deletePortForward.mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          releaseDelete = resolve;
+        }),
+    );
+
+    const cycle = runCycle();
+    await vi.waitFor(() => expect(udm.deletePortForward).toHaveBeenCalled());
+    const stopping = service.stop();
+    releaseDelete();
+
+    await expect(stopping).resolves.toEqual({
+      timedOut: false,
+      skippedNodes: [2],
+      cancelledChanges: [],
+    });
+    await cycle;
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+    expect(udm.createPortForward).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ptero-alloc-1-101' }),
+      anySignal,
+    );
+    expect(pterodactyl.listAllocations).not.toHaveBeenCalledWith(2, anySignal);
+    expect(service.requestSync()).toBe('stopping');
+    expect(udm.listPortForwards).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels in-flight requests once the shutdown timeout elapses', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { runCycle, service, udm } = shutdownContext(5);
+    udm.deletePortForward.mockImplementation(
+      (_id: string, signal: AbortSignal) =>
+        new Promise<void>((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('canceled')));
+        }),
+    );
+
+    const cycle = runCycle();
+    await vi.waitFor(() => expect(udm.deletePortForward).toHaveBeenCalled());
+    const report = await service.stop();
+    await cycle;
+
+    expect(report).toEqual({
+      timedOut: true,
+      skippedNodes: [2],
+      cancelledChanges: [
+        {
+          nodeId: 1,
+          action: 'delete',
+          allocationId: 303,
+          ruleId: 'rule-1-303',
+          ruleName: 'ptero-alloc-1-303',
+        },
+        {
+          nodeId: 1,
+          action: 'create',
+          allocationId: 101,
+          ruleId: null,
+          ruleName: 'ptero-alloc-1-101',
+        },
+      ],
+    });
+    expect(udm.createPortForward).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[sync] Shutdown timeout elapsed; cancelling in-flight requests'),
+    );
+    expect(service.getStatus().lastCycle?.failedChanges).toEqual([]);
+  });
+
+  it('stops waiting for rate limit slots once the shutdown timeout elapses', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { runCycle, service, udm } = createSyncContext({
+      allocations: [101, 102, 103].map((id) => allocationFactory({ id, port: 25465 + id })),
+      syncOverrides: { shutdownTimeoutMs: 5, applyConcurrency: 3, applyRateLimit: 1 },
+    });
+    udm.createPortForward.mockImplementation(
+      (_input: PortForwardRequest, signal: AbortSignal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('canceled')));
+        }),
+    );
+
+    const cycle = runCycle();
+    await vi.waitFor(() => expect(udm.createPortForward).toHaveBeenCalled());
+    const startedAt = Date.now();
+    const report = await service.stop();
+    await cycle;
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(report.timedOut).toBe(true);
+    expect(report.cancelledChanges.map(({ allocationId }) => allocationId).sort()).toEqual([
+      101, 102, 103,
+    ]);
+    expect(udm.createPortForward).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a queued cycle that started after the previous one', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { service, udm } = createSyncContext({
+      allocations: [allocationFactory({ id: 101, port: 25565 })],
+      rules: [],
+      syncOverrides: { shutdownTimeoutMs: 60_000 },
+    });
+    let releaseCreate: () => void = () => undefined;
+    udm.createPortForward.mockResolvedValueOnce(undefined).mockImplementationOnce(
+      () =>
+        new Promise<void>((resolve) => {
+          releaseCreate = resolve;
+        }),
+    );
+
+    expect(service.requestSync()).toBe('started');
+    expect(service.requestSync()).toBe('queued');
+    await vi.waitFor(() => expect(udm.createPortForward).toHaveBeenCalledTimes(2));
+
+    let stopped = false;
+    const stopping = service.stop().then((report) => {
+      stopped = true;
+      return report;
+    });
+    await flushMicrotasks();
+    expect(stopped).toBe(false);
+
+    releaseCreate();
+    await expect(stopping).resolves.toEqual({
+      timedOut: false,
+      skippedNodes: [],
+      cancelledChanges: [],
+    });
+    expect(service.getStatus().syncing).toBe(false);
+  });
+
+  it('resolves right away when no cycle is running', async () => {
+    const { service, udm } = shutdownContext(60_000);
+
+    await expect(service.stop()).resolves.toEqual({
+      timedOut: false,
+      skippedNodes: [],
+      cancelledChanges: [],
+    });
+    expect(service.requestSync()).toBe('stopping');
+    expect(udm.listPortForwards).not.toHaveBeenCalled();
+  });
+});
+
+describe('SyncService lifecycle', () => {
+  it('starts once and stops the polling interval cleanly', async () => {
+    vi.useFakeTimers();
+    const { service, pterodactyl, udm } = createSyncContext({
+      allocations: [],
+      rules: [],
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    service.start();
+    await flushMicrotasks();
+
+    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
+    expect(udm.listPortForwards).toHaveBeenCalledTimes(1);
+
+    service.start();
+    await flushMicrotasks();
+
+    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
+
+    service.stop();
+    vi.advanceTimersByTime(5_000);
+    await flushMicrotasks();
+
+    expect(pterodactyl.listAllocations).toHaveBeenCalledTimes(1);
+    vi.useRealTimers();
+  });
+
+  it('coalesces sync requests that arrive during a running cycle', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { service, udm } = createSyncContext({ allocations: [], rules: [] });
+
+    let releaseFirst: (rules: PortForwardRule[]) => void = () => undefined;
+    udm.listPortForwards.mockImplementationOnce(
+      () =>
+        new Promise<PortForwardRule[]>((resolve) => {
+          releaseFirst = resolve;
+        }),
+    );
+
+    expect(service.requestSync()).toBe('started');
+    expect(service.requestSync()).toBe('queued');
+    expect(service.requestSync()).toBe('queued');
+    expect(udm.listPortForwards).toHaveBeenCalledTimes(1);
+
+    releaseFirst([]);
+    await flushMicrotasks();
+    await flushMicrotasks();
+
+    expect(udm.listPortForwards).toHaveBeenCalledTimes(2);
+    expect(service.getStatus().syncing).toBe(false);
+  });
+
+  it('ignores stop calls when no interval is active', () => {
+    const { service } = createSyncContext({
+      allocations: [],
+      rules: [],
+    });
+    const clearSpy = vi.spyOn(global, 'clearInterval');
+
+    service.stop();
+
+    expect(clearSpy).not.toHaveBeenCalled();
+  });
+
+  it('skips sync cycles while one is already running', async () => {
+    const { service, pterodactyl, udm } = createSyncContext({
+      allocations: [],
+      rules: [],
+    });
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const runner = service as unknown as { runSyncCycle: () => Promise<void>; syncing: boolean };
+    runner.syncing = true;
+    await runner.runSyncCycle();
+
+    expect(pterodactyl.listAllocations).not.toHaveBeenCalled();
+    expect(udm.listPortForwards).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[sync] Previous cycle still running, skipping this tick'),
+    );
+  });
+});
+
+describe('SyncService.diffRule', () => {
+  const requestFactory = (): PortForwardRequest => ({
+    name: 'ptero-alloc-1',
+    enabled: true,
+    externalPort: 25565,
+    internalPort: 25565,
+    internalIp: '10.0.1.10',
+    protocol: 'tcp_udp',
+    source: 'any',
+    destination: 'any',
+    wanIp: 'any',
+  });
+
+  const getChangedFields = (service: SyncService) => {
+    const diffRule = (
+      service as unknown as {
+        diffRule: (rule: PortForwardRule, target: PortForwardRequest) => FieldChange[];
+      }
+    ).diffRule.bind(service);
+    return (rule: PortForwardRule, target: PortForwardRequest) =>
+      diffRule(rule, target).map(({ field }) => field);
+  };
+
+  it('returns no changes when rule state matches target', () => {
+    const service = createService();
+    const changedFields = getChangedFields(service);
+    const rule = ruleFactory({
+      internalIp: '10.0.1.10',
+      internalPort: '25565',
+      externalPort: '25565',
+      enabled: true,
+      protocol: 'tcp_udp',
+      source: 'any',
+      destination: 'any',
+      wanIp: 'any',
+    });
+
+    expect(changedFields(rule, requestFactory())).toEqual([]);
+  });
+
+  it('detects internal port mismatches', () => {
+    const service = createService();
+    const changedFields = getChangedFields(service);
+    const rule = ruleFactory({
+      internalIp: '10.0.1.10',
+      internalPort: '25564',
+    });
+
+    expect(changedFields(rule, requestFactory())).toEqual(['internalPort']);
+  });
+
+  it('detects external port mismatches', () => {
+    const service = createService();
+    const changedFields = getChangedFields(service);
+    const rule = ruleFactory({
+      internalIp: '10.0.1.10',
+      internalPort: '25565',
+      externalPort: '25564',
+    });
+
+    expect(changedFields(rule, requestFactory())).toEqual(['externalPort']);
+  });
+
+  it('detects disabled rules when target expects enabled', () => {
+    const service = createService();
+    const changedFields = getChangedFields(service);
+    const rule = ruleFactory({
+      internalIp: '10.0.1.10',
+      internalPort: '25565',
+      externalPort: '25565',
+      enabled: false,
+    });
+
+    expect(changedFields(rule, requestFactory())).toEqual(['enabled']);
+  });
+
+  it('detects enabled rules when target expects disabled', () => {
+    const service = createService();
+    const changedFields = getChangedFields(service);
+    const rule = ruleFactory({
+      internalIp: '10.0.1.10',
+      internalPort: '25565',
+      externalPort: '25565',
+      enabled: true,
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(changedFields(rule, { ...requestFactory(), enabled: false })).toEqual(['enabled']);
   });
 
   it('detects protocol mismatches', () => {
     const service = createService();
-    const isOutOfSync = getChecker(service);
+    const changedFields = getChangedFields(service);
     const rule = ruleFactory({
       internalIp: '10.0.1.10',
       internalPort: '25565',
@@ -413,12 +2623,12 @@ describe('SyncService.isRuleOutOfSync', () => {
       protocol: 'tcp',
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(changedFields(rule, requestFactory())).toEqual(['protocol']);
   });
 
   it('detects source restriction mismatches', () => {
     const service = createService();
-    const isOutOfSync = getChecker(service);
+    const changedFields = getChangedFields(service);
     const rule = ruleFactory({
       internalIp: '10.0.1.10',
       internalPort: '25565',
@@ -426,12 +2636,12 @@ describe('SyncService.isRuleOutOfSync', () => {
       source: 'wan-only',
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(changedFields(rule, requestFactory())).toEqual(['source']);
   });
 
   it('detects destination restriction mismatches', () => {
     const service = createService();
-    const isOutOfSync = getChecker(service);
+    const changedFields = getChangedFields(service);
     const rule = ruleFactory({
       internalIp: '10.0.1.10',
       internalPort: '25565',
@@ -439,12 +2649,12 @@ describe('SyncService.isRuleOutOfSync', () => {
       destination: 'lan',
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(changedFields(rule, requestFactory())).toEqual(['destination']);
   });
 
   it('detects WAN binding mismatches', () => {
     const service = createService();
-    const isOutOfSync = getChecker(service);
+    const changedFields = getChangedFields(service);
     const rule = ruleFactory({
       internalIp: '10.0.1.10',
       internalPort: '25565',
@@ -452,6 +2662,6 @@ describe('SyncService.isRuleOutOfSync', () => {
       wanIp: 'wan',
     });
 
-    expect(isOutOfSync(rule, requestFactory())).toBe(true);
+    expect(changedFields(rule, requestFactory())).toEqual(['wanIp']);
   });
 });
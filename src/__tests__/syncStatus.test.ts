@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createEmptyPlan } from '../plan';
+import { SyncStatusTracker } from '../syncStatus';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('SyncStatusTracker', () => {
+  it('summarises a cycle with applied changes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const tracker = new SyncStatusTracker(false);
+
+    tracker.beginCycle();
+    tracker.recordApplied('created');
+    tracker.recordApplied('created');
+    tracker.recordApplied('deleted');
+    vi.advanceTimersByTime(1_500);
+    const plan = createEmptyPlan();
+    plan.skipped.push({
+      nodeId: 1,
+      allocationId: 9,
+      cause: 'missing-target',
+      reason: 'missing target IP mapping',
+    });
+    plan.blockedNodes.push({ nodeId: 2, reason: 'guard' });
+    const conflict = {
+      nodeId: 1,
+      allocationId: 10,
+      ruleId: 'manual-1',
+      ruleName: 'Manual',
+      message: "25565/tcp_udp on WAN any overlaps rule 'Manual' (25565/tcp on WAN any)",
+    };
+    plan.conflicts.push(conflict);
+    const cleanup = {
+      nodeId: 1,
+      allocationId: null,
+      ruleId: 'rule-x',
+      ruleName: 'ptero-alloc-x',
+      issue: 'malformed' as const,
+      action: 'delete' as const,
+    };
+    plan.cleanup.push(cleanup);
+    tracker.finishCycle(plan);
+
+    expect(tracker.snapshot()).toMatchObject({
+      dryRun: false,
+      syncing: false,
+      lastSuccessfulCycleAt: '2026-01-01T00:00:01.500Z',
+      lastCycle: {
+        startedAt: '2026-01-01T00:00:00.000Z',
+        durationMs: 1_500,
+        result: 'success',
+        created: 2,
+        updated: 0,
+        deleted: 1,
+        skipped: 1,
+        conflicts: [conflict],
+        cleanup: [cleanup],
+        blockedNodes: [2],
+      },
+    });
+  });
+
+  it('marks cycles with failed nodes as partial and keeps the previous success', () => {
+    const tracker = new SyncStatusTracker(true);
+
+    tracker.beginCycle();
+    const plan = createEmptyPlan();
+    plan.failedNodes.push({ nodeId: 3, error: 'timeout' });
+    tracker.finishCycle(plan);
+
+    expect(tracker.snapshot()).toMatchObject({
+      dryRun: true,
+      lastSuccessfulCycleAt: null,
+      lastCycle: { result: 'partial', failedNodes: [3] },
+    });
+  });
+
+  it('marks cycles with failed changes as partial', () => {
+    const tracker = new SyncStatusTracker(false);
+
+    tracker.beginCycle();
+    const plan = createEmptyPlan();
+    const failed = {
+      nodeId: 1,
+      action: 'delete' as const,
+      allocationId: 303,
+      ruleId: 'rule-303',
+      ruleName: 'ptero-alloc-303',
+      error: 'rule is locked',
+      failures: 1,
+      backedOff: false,
+    };
+    plan.failedChanges.push(failed);
+    tracker.finishCycle(plan);
+
+    expect(tracker.snapshot()).toMatchObject({
+      lastSuccessfulCycleAt: null,
+      lastCycle: { result: 'partial', failedNodes: [], failedChanges: [failed] },
+    });
+  });
+
+  it('reports the progress of the running cycle only', () => {
+    const tracker = new SyncStatusTracker(false);
+
+    tracker.beginCycle();
+    tracker.addPlannedChanges(3);
+    tracker.addPlannedChanges(2);
+    tracker.recordProgress();
+    tracker.recordProgress();
+
+    expect(tracker.snapshot()).toMatchObject({ syncing: true, progress: { done: 2, total: 5 } });
+
+    tracker.finishCycle(createEmptyPlan());
+    expect(tracker.snapshot().progress).toBeNull();
+  });
+
+  it('ignores results outside of a cycle', () => {
+    const tracker = new SyncStatusTracker(false);
+
+    tracker.recordApplied('updated');
+    tracker.addPlannedChanges(1);
+    tracker.recordProgress();
+    tracker.finishCycle(null, new Error('late'));
+
+    expect(tracker.snapshot().lastCycle).toBeNull();
+  });
+
+  it('is ready only once both clients succeeded', () => {
+    const tracker = new SyncStatusTracker(false);
+
+    tracker.recordClientSuccess('router');
+    tracker.recordClientError('pterodactyl', new Error('401'));
+    expect(tracker.isReady()).toBe(false);
+    expect(tracker.snapshot().clients.pterodactyl.lastError).toMatchObject({ message: '401' });
+
+    tracker.recordClientSuccess('pterodactyl');
+    expect(tracker.isReady()).toBe(true);
+  });
+
+  it('becomes unhealthy when no cycle succeeded within the allowed age', () => {
+    vi.useFakeTimers();
+    const tracker = new SyncStatusTracker(false);
+
+    expect(tracker.isHealthy(1_000)).toBe(false);
+
+    tracker.markStarted();
+    expect(tracker.isHealthy(1_000)).toBe(true);
+
+    vi.advanceTimersByTime(1_001);
+    expect(tracker.isHealthy(1_000)).toBe(false);
+
+    tracker.beginCycle();
+    tracker.finishCycle(createEmptyPlan());
+    expect(tracker.isHealthy(1_000)).toBe(true);
+  });
+
+  it('stays healthy through cycles with failed changes but not with failed nodes', () => {
+    vi.useFakeTimers();
+    const tracker = new SyncStatusTracker(false);
+    tracker.markStarted();
+    vi.advanceTimersByTime(1_001);
+
+    const rejected = createEmptyPlan();
+    rejected.failedChanges.push({
+      nodeId: 1,
+      action: 'create',
+      allocationId: 101,
+      ruleId: null,
+      ruleName: 'ptero-alloc-101',
+      error: 'HTTP 400',
+      failures: 3,
+      backedOff: true,
+    });
+    tracker.beginCycle();
+    expect(tracker.finishCycle(rejected)?.result).toBe('partial');
+    expect(tracker.isHealthy(1_000)).toBe(true);
+    expect(tracker.snapshot().lastSuccessfulCycleAt).toBeNull();
+
+    vi.advanceTimersByTime(1_001);
+    const unreachable = createEmptyPlan();
+    unreachable.failedNodes.push({ nodeId: 2, error: 'ECONNREFUSED' });
+    tracker.beginCycle();
+    tracker.finishCycle(unreachable);
+    expect(tracker.isHealthy(1_000)).toBe(false);
+  });
+});
@@ -1,14 +1,46 @@
 import axios, { AxiosError, type AxiosResponse } from 'axios';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { metricsRegistry } from '../metrics';
+import { defaultRetryOptions } from '../retry';
 import { UdmClient } from '../udmClient';
-import type { PortForwardRule } from '../udmClient';
+import type { PortForwardRule } from '../routerDriver';
 
 describe('UdmClient', () => {
   beforeEach(() => {
     vi.restoreAllMocks();
+    metricsRegistry.resetMetrics();
   });
 
+  const fastRetries = { ...defaultRetryOptions, baseDelayMs: 1, maxDelayMs: 5 };
+
+  const httpError = (status: number, headers: Record<string, string> = {}) => {
+    const error = new AxiosError(`Request failed with status code ${status}`);
+    error.response = { status, statusText: '', headers, config: {}, data: {} } as AxiosResponse;
+    return error;
+  };
+
+  const forwardRequest = {
+    name: 'ptero-alloc-1',
+    enabled: true,
+    externalPort: 25565,
+    internalPort: 25565,
+    internalIp: '10.0.1.3',
+    protocol: 'tcp_udp' as const,
+    source: 'any',
+    destination: 'any',
+    wanIp: 'any',
+  };
+
+  const rawForward = { _id: 'rule-1', name: 'ptero-alloc-1', dst_port: '25565', fwd: '10.0.1.3' };
+
+  const metricValue = async (name: string, labels: Record<string, string> = {}) => {
+    const metric = await metricsRegistry.getSingleMetric(name)?.get();
+    return metric?.values.find((value) =>
+      Object.entries(labels).every(([key, expected]) => value.labels[key] === expected),
+    )?.value;
+  };
+
   const createAxiosStub = (overrides: Partial<ReturnType<typeof axios.create>>) =>
     ({
       defaults: { headers: { common: {} } },
@@ -313,6 +345,203 @@ describe('UdmClient', () => {
     expect(postMock).toHaveBeenCalledTimes(2);
     expect(requestMock).toHaveBeenCalledTimes(2);
     expect(rules).toEqual([]);
+    expect(await metricValue('ptero_udm_sync_udm_reauthentications_total')).toBe(1);
+    expect(
+      await metricValue('ptero_udm_sync_udm_requests_total', { operation: 'list', status: '401' }),
+    ).toBe(1);
+    expect(
+      await metricValue('ptero_udm_sync_udm_requests_total', { operation: 'list', status: '200' }),
+    ).toBe(1);
+  });
+
+  it('authenticates with an API key without logging in or using cookies', async () => {
+    const postMock = vi.fn();
+    const requestMock = vi.fn().mockResolvedValue({
+      status: 200,
+      headers: { 'set-cookie': ['TOKEN=ignored; Path=/; HttpOnly'] },
+      data: { data: [] },
+    });
+    const createSpy = vi
+      .spyOn(axios, 'create')
+      .mockReturnValue(createAxiosStub({ post: postMock, request: requestMock }));
+
+    const client = new UdmClient('https://udm.example.com', '', '', 'default', true, 'key-123');
+
+    await client.listPortForwards();
+    await client.listPortForwards();
+
+    expect(createSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'X-API-KEY': 'key-123' }),
+      }),
+    );
+    expect(postMock).not.toHaveBeenCalled();
+    expect(requestMock).toHaveBeenCalledTimes(2);
+    expect(requestMock.mock.calls[1][0].headers).not.toHaveProperty('Cookie');
+    const internals = client as unknown as {
+      jar: { getCookieString: (url: string) => Promise<string> };
+    };
+    expect(await internals.jar.getCookieString('https://udm.example.com')).toBe('');
+  });
+
+  it('fails without retrying when the API key is rejected', async () => {
+    const authFailure = new AxiosError('Unauthorized');
+    authFailure.response = {
+      status: 401,
+      statusText: 'Unauthorized',
+      headers: {},
+      config: {},
+      data: { message: 'Unauthorized' },
+    } as AxiosResponse;
+    const postMock = vi.fn();
+    const requestMock = vi.fn().mockRejectedValue(authFailure);
+    vi.spyOn(axios, 'create').mockReturnValue(
+      createAxiosStub({ post: postMock, request: requestMock }),
+    );
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const client = new UdmClient('https://udm.example.com', '', '', 'default', true, 'key-123');
+
+    await expect(client.listPortForwards()).rejects.toThrow(
+      'UDM rejected the API key (HTTP 401); check that UDM_API_KEY is valid and has not been revoked',
+    );
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(postMock).not.toHaveBeenCalled();
+    expect(await metricValue('ptero_udm_sync_udm_reauthentications_total')).toBe(0);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[udm] UDM rejected the API key'),
+    );
+  });
+
+  it('logs in to standalone controllers with session cookies', async () => {
+    const postMock = vi.fn().mockResolvedValue({
+      headers: { 'set-cookie': ['unifises=session-1; Path=/; HttpOnly'] },
+    });
+    const requestMock = vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { data: [] } });
+    const getMock = vi.fn();
+    const stub = createAxiosStub({ post: postMock, request: requestMock, get: getMock });
+    vi.spyOn(axios, 'create').mockReturnValue(stub);
+
+    const client = new UdmClient(
+      'https://controller.example.com:8443',
+      'admin',
+      'password',
+      'branch',
+      true,
+      undefined,
+      'standalone',
+    );
+
+    await client.listPortForwards();
+
+    expect(getMock).not.toHaveBeenCalled();
+    expect(postMock).toHaveBeenCalledWith(
+      '/api/login',
+      { username: 'admin', password: 'password', remember: false },
+      expect.any(Object),
+    );
+    expect(requestMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: '/api/s/branch/rest/portforward',
+        headers: expect.objectContaining({ Cookie: 'unifises=session-1' }),
+      }),
+    );
+    expect(stub.defaults.headers.common).not.toHaveProperty('X-CSRF-Token');
+  });
+
+  it('rejects standalone logins without a session cookie', async () => {
+    vi.spyOn(axios, 'create').mockReturnValue(
+      createAxiosStub({ post: vi.fn().mockResolvedValue({ headers: {} }), request: vi.fn() }),
+    );
+
+    const client = new UdmClient(
+      'https://controller.example.com',
+      'admin',
+      'password',
+      'default',
+      true,
+      undefined,
+      'standalone',
+    );
+
+    await expect(client.listPortForwards()).rejects.toThrow(
+      'Unable to find unifises session cookie in controller login response',
+    );
+  });
+
+  it.each([
+    [200, null, '/api/auth/login', '/proxy/network/api/s/default/rest/portforward/rule-1'],
+    [302, '/manage', '/api/login', '/api/s/default/rest/portforward/rule-1'],
+    [302, '/login', null, null],
+    [401, null, null, null],
+    [404, null, null, null],
+    [502, null, null, null],
+    [503, null, null, null],
+  ])(
+    'detects the controller type from a %i response on / (Location: %s)',
+    async (status, location, loginPath, deletePath) => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const getMock = vi.fn().mockResolvedValue({ status, headers: { location } });
+      const postMock = vi.fn().mockResolvedValue({
+        headers: {
+          'set-cookie': ['unifises=abc; Path=/', 'csrf_token=def; Path=/'],
+        },
+      });
+      const requestMock = vi.fn().mockResolvedValue({ status: 200, headers: {}, data: {} });
+      vi.spyOn(axios, 'create').mockReturnValue(
+        createAxiosStub({ get: getMock, post: postMock, request: requestMock }),
+      );
+      const { signal } = new AbortController();
+
+      const client = new UdmClient(
+        'https://udm.example.com',
+        'admin',
+        'password',
+        'default',
+        true,
+        undefined,
+        'auto',
+      );
+
+      if (!loginPath) {
+        // Nothing is cached, so the next request detects the type again.
+        await expect(client.deletePortForward('rule-1', signal)).rejects.toThrow(
+          `GET / answered HTTP ${status}`,
+        );
+        await expect(client.deletePortForward('rule-1', signal)).rejects.toThrow();
+        expect(getMock).toHaveBeenCalledTimes(2);
+        expect(postMock).not.toHaveBeenCalled();
+        expect(requestMock).not.toHaveBeenCalled();
+        return;
+      }
+
+      await client.deletePortForward('rule-1', signal);
+      await client.deletePortForward('rule-1', signal);
+
+      expect(getMock).toHaveBeenCalledTimes(1);
+      expect(getMock).toHaveBeenCalledWith(
+        '/',
+        expect.objectContaining({ maxRedirects: 0, signal }),
+      );
+      expect(postMock).toHaveBeenCalledWith(loginPath, expect.any(Object), expect.any(Object));
+      expect(requestMock).toHaveBeenCalledWith(expect.objectContaining({ url: deletePath }));
+    },
+  );
+
+  it('skips controller detection when an API key is used', async () => {
+    const getMock = vi.fn();
+    const requestMock = vi.fn().mockResolvedValue({ status: 200, headers: {}, data: [] });
+    vi.spyOn(axios, 'create').mockReturnValue(
+      createAxiosStub({ get: getMock, post: vi.fn(), request: requestMock }),
+    );
+
+    const client = new UdmClient('https://udm.example.com', '', '', 'default', true, 'key', 'auto');
+    await client.listPortForwards();
+
+    expect(getMock).not.toHaveBeenCalled();
+    expect(requestMock).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/proxy/network/api/s/default/rest/portforward' }),
+    );
   });
 
   it('attaches stored cookies to outgoing requests', async () => {
@@ -328,15 +557,15 @@ describe('UdmClient', () => {
 
     const client = new UdmClient('https://udm.example.com', 'admin', 'password', 'default', true);
     const internals = client as unknown as {
-      request: (config: { method: string; url: string }) => Promise<unknown>;
+      request: (operation: string, config: { method: string; url: string }) => Promise<unknown>;
       jar: { setCookie: (cookie: string, url: string) => Promise<unknown> };
-      csrfToken: string | null;
+      authenticated: boolean;
     };
 
-    internals.csrfToken = 'ready';
+    internals.authenticated = true;
     await internals.jar.setCookie('session=abc; Path=/;', 'https://udm.example.com');
 
-    await internals.request({
+    await internals.request('list', {
       method: 'GET',
       url: '/proxy/network/api/s/default/rest/portforward',
     });
@@ -359,14 +588,17 @@ describe('UdmClient', () => {
 
     const client = new UdmClient('https://udm.example.com', 'admin', 'password', 'default', true);
     const internals = client as unknown as {
-      request: (config: { method: string; url: string }) => Promise<unknown>;
-      csrfToken: string | null;
+      request: (operation: string, config: { method: string; url: string }) => Promise<unknown>;
+      authenticated: boolean;
     };
 
-    internals.csrfToken = 'ready';
+    internals.authenticated = true;
 
     await expect(
-      internals.request({ method: 'GET', url: '/proxy/network/api/s/default/rest/portforward' }),
+      internals.request('list', {
+        method: 'GET',
+        url: '/proxy/network/api/s/default/rest/portforward',
+      }),
     ).rejects.toThrow('boom');
   });
 
@@ -380,15 +612,24 @@ describe('UdmClient', () => {
 
     const client = new UdmClient('https://udm.example.com', 'admin', 'password', 'default', true);
     const internals = client as unknown as {
-      request: (config: { method: string; url: string }) => Promise<unknown>;
-      csrfToken: string | null;
+      request: (operation: string, config: { method: string; url: string }) => Promise<unknown>;
+      authenticated: boolean;
     };
 
-    internals.csrfToken = 'ready';
+    internals.authenticated = true;
 
     await expect(
-      internals.request({ method: 'GET', url: '/proxy/network/api/s/default/rest/portforward' }),
+      internals.request('list', {
+        method: 'GET',
+        url: '/proxy/network/api/s/default/rest/portforward',
+      }),
     ).rejects.toBe(error);
+    expect(
+      await metricValue('ptero_udm_sync_udm_requests_total', {
+        operation: 'list',
+        status: 'error',
+      }),
+    ).toBe(1);
   });
 
   it('normalizes protocol variants', () => {
@@ -405,6 +646,27 @@ describe('UdmClient', () => {
     expect(internals.normalizeProtocol('unexpected')).toBe('tcp');
   });
 
+  it('writes port ranges as UniFi range strings', () => {
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ post: vi.fn(), request: vi.fn() }));
+    const client = new UdmClient('https://udm.example.com', 'admin', 'password', 'default', true);
+
+    expect(
+      client.buildPayload({
+        name: 'ptero-alloc-101-106',
+        enabled: true,
+        externalPort: 27015,
+        externalPortEnd: 27020,
+        internalPort: 27015,
+        internalPortEnd: 27020,
+        internalIp: '10.0.1.10',
+        protocol: 'udp',
+        source: 'any',
+        destination: 'any',
+        wanIp: 'any',
+      }),
+    ).toMatchObject({ dst_port: '27015-27020', fwd_port: '27015-27020', proto: 'udp' });
+  });
+
   it('extracts CSRF tokens from various sources', async () => {
     vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ post: vi.fn(), request: vi.fn() }));
     const client = new UdmClient('https://udm.example.com', 'admin', 'password', 'default', true);
@@ -514,4 +776,178 @@ describe('UdmClient', () => {
 
     expect(internals.resolveUrl('/anything')).toBe('nota-url');
   });
+
+  it('retries idempotent requests on 5xx responses and network errors', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const requestMock = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(new AxiosError('timeout of 15000ms exceeded', 'ECONNABORTED'))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [] } })
+      .mockRejectedValueOnce(httpError(500))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: {} });
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient(
+      'https://udm.example.com',
+      '',
+      '',
+      'default',
+      true,
+      'key-123',
+      'unifi-os',
+      fastRetries,
+    );
+
+    await expect(client.listPortForwards()).resolves.toEqual([]);
+    await client.deletePortForward('rule-1');
+
+    expect(requestMock).toHaveBeenCalledTimes(5);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('UDM list failed (HTTP 502); retrying in'),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('UDM delete failed (HTTP 500); retrying in'),
+    );
+  });
+
+  it('waits as long as Retry-After asks on 429 responses', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const requestMock = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [] } });
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient('https://udm.example.com', '', '', 'default', true, 'key-123');
+    const listing = client.listPortForwards();
+
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(listing).resolves.toEqual([]);
+    expect(requestMock).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('does not retry client errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const badRequest = httpError(400);
+    const requestMock = vi.fn().mockRejectedValue(badRequest);
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient(
+      'https://udm.example.com',
+      '',
+      '',
+      'default',
+      true,
+      'key-123',
+      'unifi-os',
+      fastRetries,
+    );
+
+    await expect(client.createPortForward(forwardRequest)).rejects.toBe(badRequest);
+    expect(requestMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-lists before retrying a create that failed ambiguously', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const infoSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const requestMock = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(504))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [rawForward] } });
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient(
+      'https://udm.example.com',
+      '',
+      '',
+      'default',
+      true,
+      'key-123',
+      'unifi-os',
+      fastRetries,
+    );
+
+    await expect(client.createPortForward(forwardRequest)).resolves.toMatchObject({
+      id: 'rule-1',
+    });
+    expect(requestMock.mock.calls.map(([config]) => config.method)).toEqual(['POST', 'GET']);
+    expect(infoSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "Port forward 'ptero-alloc-1' was created despite the failed request",
+      ),
+    );
+  });
+
+  it('sends a create again when the rule is missing or the UDM was unreachable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const requestMock = vi
+      .fn()
+      .mockRejectedValueOnce(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED'))
+      .mockRejectedValueOnce(new AxiosError('socket hang up', 'ECONNRESET'))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [] } })
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: rawForward } });
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient(
+      'https://udm.example.com',
+      '',
+      '',
+      'default',
+      true,
+      'key-123',
+      'unifi-os',
+      fastRetries,
+    );
+
+    await expect(client.createPortForward(forwardRequest)).resolves.toMatchObject({
+      id: 'rule-1',
+    });
+    expect(requestMock.mock.calls.map(([config]) => config.method)).toEqual([
+      'POST',
+      'POST',
+      'GET',
+      'POST',
+    ]);
+  });
+
+  it('counts a 404 on a retried delete as the rule being gone', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const infoSpy = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const requestMock = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(httpError(404));
+    vi.spyOn(axios, 'create').mockReturnValue(createAxiosStub({ request: requestMock }));
+
+    const client = new UdmClient(
+      'https://udm.example.com',
+      '',
+      '',
+      'default',
+      true,
+      'key-123',
+      'unifi-os',
+      fastRetries,
+    );
+
+    await expect(client.deletePortForward('rule-1')).resolves.toBeUndefined();
+    expect(requestMock.mock.calls.map(([config]) => config.method)).toEqual(['DELETE', 'DELETE']);
+    expect(infoSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Port forward rule-1 was deleted despite the failed request'),
+    );
+
+    const notFound = httpError(404);
+    requestMock.mockReset().mockRejectedValueOnce(notFound);
+    await expect(client.deletePortForward('rule-2')).rejects.toBe(notFound);
+  });
 });
@@ -0,0 +1,125 @@
+import { isIP } from 'node:net';
+import { ForwardProtocol } from './routerDriver';
+
+/** Per-allocation overrides read from `udm:` lines in the allocation notes. */
+export interface AllocationDirectives {
+  skip: boolean;
+  enabled?: boolean;
+  protocol?: ForwardProtocol;
+  source?: string;
+  targetIp?: string;
+}
+
+export interface ParsedDirectives {
+  directives: AllocationDirectives;
+  warnings: string[];
+}
+
+const directiveLine = /^\s*udm:(.*)$/i;
+
+const protocols: Record<string, ForwardProtocol> = {
+  tcp: 'tcp',
+  udp: 'udp',
+  tcp_udp: 'tcp_udp',
+  'tcp-udp': 'tcp_udp',
+  both: 'tcp_udp',
+};
+
+const booleans: Record<string, boolean> = { true: true, yes: true, false: false, no: false };
+
+const isCidr = (value: string): boolean => {
+  const [address, prefix, ...rest] = value.split('/');
+  const family = isIP(address);
+  if (family === 0 || rest.length > 0) {
+    return false;
+  }
+  if (prefix === undefined) {
+    return true;
+  }
+  const bits = Number(prefix);
+  return /^\d{1,3}$/.test(prefix) && bits <= (family === 4 ? 32 : 128);
+};
+
+/**
+ * Reads directives such as `udm: proto=udp source=192.0.2.0/24` or `udm: skip`
+ * from allocation notes. Only lines starting with `udm:` are considered, so the
+ * rest of the notes stay free text. Directives that cannot be understood are
+ * reported as warnings and otherwise ignored.
+ */
+export const parseAllocationDirectives = (notes: string | null): ParsedDirectives => {
+  const directives: AllocationDirectives = { skip: false };
+  const warnings: string[] = [];
+
+  for (const line of (notes ?? '').split(/\r?\n/)) {
+    const match = directiveLine.exec(line);
+    if (!match) {
+      continue;
+    }
+    const tokens = match[1].split(/[\s,;]+/).filter(Boolean);
+    if (tokens.length === 0) {
+      warnings.push("empty 'udm:' directive");
+    }
+
+    for (const token of tokens) {
+      const separator = token.indexOf('=');
+      const key = (separator === -1 ? token : token.slice(0, separator)).toLowerCase();
+      const value = separator === -1 ? undefined : token.slice(separator + 1);
+
+      if (key === 'skip' || key === 'disable') {
+        if (value !== undefined) {
+          warnings.push(`directive '${key}' does not take a value (got '${token}')`);
+        } else if (key === 'skip') {
+          directives.skip = true;
+        } else {
+          directives.enabled = false;
+        }
+        continue;
+      }
+
+      if (!value) {
+        warnings.push(`directive '${token}' is missing a value`);
+        continue;
+      }
+
+      switch (key) {
+        case 'proto':
+        case 'protocol': {
+          const protocol = protocols[value.toLowerCase()];
+          if (protocol) {
+            directives.protocol = protocol;
+          } else {
+            warnings.push(`unknown protocol '${value}'; expected tcp, udp or tcp_udp`);
+          }
+          break;
+        }
+        case 'enabled': {
+          const enabled = booleans[value.toLowerCase()];
+          if (enabled === undefined) {
+            warnings.push(`invalid enabled value '${value}'; expected true or false`);
+          } else {
+            directives.enabled = enabled;
+          }
+          break;
+        }
+        case 'source':
+          if (value.toLowerCase() === 'any' || isCidr(value)) {
+            directives.source = value.toLowerCase() === 'any' ? 'any' : value;
+          } else {
+            warnings.push(`invalid source '${value}'; expected an address, a CIDR or 'any'`);
+          }
+          break;
+        case 'ip':
+          if (isIP(value) === 4) {
+            directives.targetIp = value;
+          } else {
+            warnings.push(`invalid target IP '${value}'; expected an IPv4 address`);
+          }
+          break;
+        default:
+          warnings.push(`unknown directive '${key}'`);
+      }
+    }
+  }
+
+  return { directives, warnings };
+};
@@ -0,0 +1,89 @@
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditEntry {
+  time: string;
+  action: AuditAction;
+  nodeId: number;
+  /** Null for rules whose allocation could not be determined. */
+  allocationId: number | null;
+  ruleId: string | null;
+  ruleName: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  outcome: 'success' | 'failure';
+  error: string | null;
+}
+
+export interface AuditQuery {
+  allocationId?: number;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Append-only JSONL record of every change the sync applied to the router, so
+ * a vanished or altered forward can be traced back (or ruled out) afterwards.
+ */
+export class AuditJournal {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async record(entry: Omit<AuditEntry, 'time'>): Promise<void> {
+    this.ready ??= mkdir(dirname(this.filePath), { recursive: true });
+    await this.ready;
+    const line: AuditEntry = { time: new Date().toISOString(), ...entry };
+    await appendFile(this.filePath, `${JSON.stringify(line)}\n`, 'utf8');
+  }
+
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    const stream = createReadStream(this.filePath, { encoding: 'utf8' });
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        const entry = JSON.parse(line) as AuditEntry;
+        if (matchesQuery(entry, filter)) {
+          entries.push(entry);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries;
+  }
+}
+
+const matchesQuery = (entry: AuditEntry, filter: AuditQuery): boolean => {
+  if (filter.allocationId !== undefined && entry.allocationId !== filter.allocationId) {
+    return false;
+  }
+  const time = Date.parse(entry.time);
+  if (filter.since && time < filter.since.getTime()) {
+    return false;
+  }
+  if (filter.until && time > filter.until.getTime()) {
+    return false;
+  }
+  return true;
+};
+
+export const formatAuditEntry = (entry: AuditEntry): string => {
+  const allocation = entry.allocationId === null ? '' : `, allocation ${entry.allocationId}`;
+  const rule = entry.ruleId ? `, rule ${entry.ruleId}` : '';
+  const outcome = entry.outcome === 'success' ? 'ok' : `FAILED: ${entry.error ?? 'unknown error'}`;
+  return `${entry.time} ${entry.action} '${entry.ruleName}' (node ${entry.nodeId}${allocation}${rule}) ${outcome}`;
+};
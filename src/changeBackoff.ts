@@ -0,0 +1,96 @@
+import { AuditAction } from './auditJournal';
+
+/** A router write that failed, either in this cycle or in an earlier one. */
+export interface FailedChange {
+  nodeId: number;
+  action: AuditAction;
+  allocationId: number | null;
+  ruleId: string | null;
+  ruleName: string;
+  error: string;
+  /** Consecutive cycles in which the change failed. */
+  failures: number;
+  /** Set when the change was not attempted in this cycle because it is backed off. */
+  backedOff: boolean;
+}
+
+export type ChangeKey = Pick<FailedChange, 'nodeId' | 'action' | 'ruleId' | 'ruleName'>;
+
+interface BackoffEntry {
+  nodeId: number;
+  error: string;
+  failures: number;
+  /** Cycles still to be skipped before the change is attempted again. */
+  skipCycles: number;
+}
+
+/**
+ * Cycles a change is skipped after its n-th consecutive failure: none after
+ * the first, so a one-off error is retried right away, then 1, 3, 7, ...
+ */
+export const backoffCycles = (failures: number, maxCycles: number): number =>
+  Math.min(maxCycles, 2 ** (failures - 1) - 1);
+
+/**
+ * Remembers router writes that keep failing so each one is backed off on its
+ * own instead of failing every cycle. Held in memory; a restart retries all.
+ */
+export class ChangeBackoff {
+  private readonly entries = new Map<string, BackoffEntry>();
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly maxCycles: number) {}
+
+  /**
+   * Returns the previous failure when the change is to be skipped in this
+   * cycle, counting the skip.
+   */
+  shouldSkip(change: ChangeKey): { error: string; failures: number } | null {
+    const key = this.keyOf(change);
+    this.seen.add(key);
+    const entry = this.entries.get(key);
+    if (!entry || entry.skipCycles === 0) {
+      return null;
+    }
+    entry.skipCycles -= 1;
+    return { error: entry.error, failures: entry.failures };
+  }
+
+  /** Records a failed attempt and returns the number of consecutive failures. */
+  recordFailure(change: ChangeKey, error: string): number {
+    const key = this.keyOf(change);
+    const failures = (this.entries.get(key)?.failures ?? 0) + 1;
+    this.entries.set(key, {
+      nodeId: change.nodeId,
+      error,
+      failures,
+      skipCycles: backoffCycles(failures, this.maxCycles),
+    });
+    return failures;
+  }
+
+  recordSuccess(change: ChangeKey): void {
+    this.entries.delete(this.keyOf(change));
+  }
+
+  /**
+   * Forgets the failures of a node's changes that were not planned again,
+   * e.g. because the allocation is gone, once its changes have been applied.
+   */
+  finishNode(nodeId: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.nodeId === nodeId && !this.seen.has(key)) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of this.seen) {
+      if (key.startsWith(`${nodeId}:`)) {
+        this.seen.delete(key);
+      }
+    }
+  }
+
+  private keyOf({ nodeId, action, ruleId, ruleName }: ChangeKey): string {
+    return `${nodeId}:${action}:${ruleId ?? ruleName}`;
+  }
+}
@@ -0,0 +1,350 @@
+import axios from 'axios';
+import { AuditJournal, formatAuditEntry } from './auditJournal';
+import { AppConfig } from './config';
+import { createLogger } from './logger';
+import { formatPlan } from './plan';
+import { PterodactylClient } from './pterodactylClient';
+import { RouterDriver } from './routerDriver';
+import { CycleSummary } from './syncStatus';
+import { RuleOwnership, ShutdownReport, SyncService } from './syncService';
+
+const logger = createLogger('cli');
+
+/** Everything a one-shot command needs, wired up once by main. */
+export interface CliContext {
+  config: AppConfig;
+  pterodactylClient: PterodactylClient;
+  router: RouterDriver;
+  syncService: SyncService;
+}
+
+/** Exit codes of `sync --once`; any other command exits with 0 or 1. */
+export const syncExitCodes = {
+  success: 0,
+  failed: 1,
+  partial: 2,
+  noop: 3,
+} as const;
+
+const print = (text: string): void => {
+  process.stdout.write(`${text}\n`);
+};
+
+const printJson = (value: unknown): void => {
+  print(JSON.stringify(value, null, 2));
+};
+
+const readOption = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`Option ${name} requires a value`);
+  }
+  return value;
+};
+
+const parseDateOption = (args: string[], name: string): Date | undefined => {
+  const value = readOption(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Option ${name} must be a date or ISO timestamp, got '${value}'`);
+  }
+  return date;
+};
+
+export const logShutdownReport = ({
+  timedOut,
+  skippedNodes,
+  cancelledChanges,
+}: ShutdownReport): void => {
+  if (skippedNodes.length === 0 && cancelledChanges.length === 0) {
+    logger.info(
+      timedOut ? 'Shutdown timeout elapsed; nothing was left unfinished' : 'Shutdown complete',
+    );
+    return;
+  }
+  if (skippedNodes.length > 0) {
+    logger.warn(`Nodes left unsynced until the next start: ${skippedNodes.join(', ')}`);
+  }
+  for (const { action, ruleName, nodeId, allocationId } of cancelledChanges) {
+    logger.warn(`Cancelled ${action} of port forward '${ruleName}'`, { nodeId, allocationId });
+  }
+};
+
+/**
+ * Maps a cycle to the exit code of `sync --once`. Nodes held back by the
+ * deletion guard count as a partial sync, since their changes were not applied.
+ */
+export const cycleExitCode = (summary: CycleSummary | null): number => {
+  if (!summary || summary.result === 'failed') {
+    return syncExitCodes.failed;
+  }
+  if (summary.result === 'partial' || summary.blockedNodes.length > 0) {
+    return syncExitCodes.partial;
+  }
+  return summary.created + summary.updated + summary.deleted === 0
+    ? syncExitCodes.noop
+    : syncExitCodes.success;
+};
+
+const formatCycleSummary = (summary: CycleSummary): string => {
+  const lines = [
+    `Sync ${summary.result}: ${summary.created} created, ${summary.updated} updated, ${summary.deleted} deleted, ${summary.skipped} skipped`,
+  ];
+  if (summary.error) {
+    lines.push(`x ${summary.error}`);
+  }
+  summary.failedNodes.forEach((nodeId) => lines.push(`x node ${nodeId} failed`));
+  summary.blockedNodes.forEach((nodeId) =>
+    lines.push(`x node ${nodeId} held back by the deletion guard`),
+  );
+  summary.failedChanges.forEach(({ action, ruleName, nodeId, error }) =>
+    lines.push(`x ${action} '${ruleName}' (node ${nodeId}) failed: ${error}`),
+  );
+  return lines.join('\n');
+};
+
+/**
+ * Runs a single cycle. A first SIGINT or SIGTERM lets the cycle finish the
+ * node being applied, like a shutdown of the polling loop; a second one
+ * terminates the process right away.
+ */
+export async function runSyncOnce({ syncService }: CliContext, args: string[]): Promise<number> {
+  let shutdown = null as Promise<ShutdownReport> | null;
+  const interrupt = () => {
+    shutdown ??= syncService.stop();
+  };
+  process.once('SIGINT', interrupt);
+  process.once('SIGTERM', interrupt);
+
+  let summary: CycleSummary | null;
+  try {
+    summary = await syncService.syncOnce();
+  } finally {
+    process.off('SIGINT', interrupt);
+    process.off('SIGTERM', interrupt);
+  }
+
+  if (args.includes('--json')) {
+    printJson(summary);
+  } else if (summary) {
+    print(formatCycleSummary(summary));
+  }
+
+  if (shutdown) {
+    const report = await shutdown;
+    logShutdownReport(report);
+    if (report.skippedNodes.length > 0 || report.cancelledChanges.length > 0) {
+      return syncExitCodes.partial;
+    }
+  }
+  return cycleExitCode(summary);
+}
+
+export async function runPlan({ syncService }: CliContext, args: string[]): Promise<number> {
+  const plan = await syncService.plan();
+
+  if (args.includes('--json')) {
+    printJson(plan);
+  } else {
+    print(formatPlan(plan));
+  }
+
+  return plan.failedNodes.length > 0 || plan.blockedNodes.length > 0 ? 1 : 0;
+}
+
+const formatRuleOwnership = ({ rule, nodeId, allocationId }: RuleOwnership): string => {
+  const owner =
+    nodeId === null ? 'unmanaged' : `node ${nodeId}, allocation ${allocationId ?? 'unreadable'}`;
+  const wan = rule.wanIp && rule.wanIp !== 'any' ? `${rule.wanIp}:` : '';
+  const state = rule.enabled ? '' : ', disabled';
+  return `'${rule.name}' (${owner}, rule ${rule.id}) ${wan}${rule.externalPort} -> ${rule.internalIp}:${rule.internalPort} ${rule.protocol}${state}`;
+};
+
+export async function runListRules({ syncService }: CliContext, args: string[]): Promise<number> {
+  const rules = await syncService.listRules();
+
+  if (args.includes('--json')) {
+    printJson(
+      rules.map(({ rule, nodeId, allocationId }) => ({
+        ...rule,
+        managed: nodeId !== null,
+        nodeId,
+        allocationId,
+      })),
+    );
+    return 0;
+  }
+
+  const managed = rules.filter(({ nodeId }) => nodeId !== null);
+  const unmanaged = rules.filter(({ nodeId }) => nodeId === null);
+  print(`Rules: ${managed.length} managed, ${unmanaged.length} unmanaged`);
+  [...managed, ...unmanaged].forEach((entry) => print(formatRuleOwnership(entry)));
+  return 0;
+}
+
+export async function runListAllocations(
+  { syncService }: CliContext,
+  args: string[],
+): Promise<number> {
+  const nodes = await syncService.listAllocations();
+
+  if (args.includes('--json')) {
+    printJson(nodes);
+    return 0;
+  }
+
+  const total = nodes.reduce((sum, { allocations }) => sum + allocations.length, 0);
+  print(`Allocations: ${total} on node(s) ${nodes.map(({ nodeId }) => nodeId).join(', ')}`);
+  for (const { nodeId, allocations } of nodes) {
+    for (const allocation of allocations) {
+      const alias = allocation.ipAlias ? ` (alias ${allocation.ipAlias})` : '';
+      const server = allocation.server
+        ? `, server '${allocation.server.name}'${allocation.server.suspended ? ' (suspended)' : ''}`
+        : allocation.assigned
+          ? ''
+          : ', unassigned';
+      const notes = allocation.notes ? `, notes '${allocation.notes}'` : '';
+      print(
+        `${allocation.ip}:${allocation.port}${alias} (node ${nodeId}, allocation ${allocation.id}${server}${notes})`,
+      );
+    }
+  }
+  return 0;
+}
+
+/**
+ * Deletes every managed rule. Without `--yes`, and with DRY_RUN set, it only
+ * lists the rules it would delete.
+ */
+export async function runPrune(
+  { config, syncService }: CliContext,
+  args: string[],
+): Promise<number> {
+  const managed = (await syncService.listRules()).filter(({ nodeId }) => nodeId !== null);
+  if (managed.length === 0) {
+    print('No managed rules to prune.');
+    return 0;
+  }
+
+  print(`Managed rules to delete: ${managed.length}`);
+  managed.forEach((entry) => print(formatRuleOwnership(entry)));
+  if (config.sync.dryRun) {
+    print('DRY_RUN is set; nothing was deleted.');
+    return 0;
+  }
+  if (!args.includes('--yes')) {
+    print('Nothing was deleted; re-run with --yes to delete these rules.');
+    return 0;
+  }
+
+  const failures = await syncService.prune(managed);
+  print(`Deleted ${managed.length - failures.length} of ${managed.length} managed rule(s).`);
+  failures.forEach(({ ruleName, error }) => print(`x delete '${ruleName}' failed: ${error}`));
+  return failures.length > 0 ? 1 : 0;
+}
+
+type CheckStatus = 'ok' | 'skip' | 'FAIL';
+
+const describeCheckFailure = (error: unknown): string => {
+  const message = (error as Error).message;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === 401 || status === 403
+    ? `${message} (check the credentials and the permissions of the key)`
+    : message;
+};
+
+/**
+ * Verifies that both APIs are reachable and that the configured credentials
+ * may read what a cycle reads. Nothing is written, so write permissions on the
+ * router are not verified.
+ */
+export async function runCheck({
+  config,
+  pterodactylClient,
+  router,
+  syncService,
+}: CliContext): Promise<number> {
+  let failed = false;
+  const report = (status: CheckStatus, name: string, detail: string) => {
+    failed ||= status === 'FAIL';
+    print(`${status.padEnd(4)} ${name}: ${detail}`);
+  };
+  const check = async (name: string, probe: () => Promise<string>) => {
+    try {
+      report('ok', name, await probe());
+    } catch (error) {
+      report('FAIL', name, describeCheckFailure(error));
+    }
+  };
+
+  await check('Pterodactyl application API', async () => {
+    const nodes = await pterodactylClient.listNodes();
+    return `${nodes.length} node(s) visible`;
+  });
+  await check('Pterodactyl allocations', async () => {
+    const nodes = await syncService.listAllocations();
+    const total = nodes.reduce((sum, { allocations }) => sum + allocations.length, 0);
+    return `${total} allocation(s) on node(s) ${nodes.map(({ nodeId }) => nodeId).join(', ')}`;
+  });
+  if (pterodactylClient.supportsPowerState) {
+    await check('Pterodactyl client API', async () => {
+      await pterodactylClient.verifyClientAccess();
+      return 'key accepted';
+    });
+  } else {
+    report('skip', 'Pterodactyl client API', 'PTERODACTYL_CLIENT_API_KEY is not set');
+  }
+  await check(`Router (${config.router.backend})`, async () => {
+    const rules = await router.listPortForwards();
+    return `${rules.length} port forward(s) readable`;
+  });
+
+  return failed ? 1 : 0;
+}
+
+export async function runAudit({ config }: CliContext, args: string[]): Promise<number> {
+  if (!config.audit.logPath) {
+    throw new Error('AUDIT_LOG_PATH is not set; there is no audit journal to query.');
+  }
+
+  const allocation = readOption(args, '--allocation');
+  const allocationId = allocation === undefined ? undefined : Number(allocation);
+  if (allocationId !== undefined && !Number.isInteger(allocationId)) {
+    throw new Error(`Option --allocation must be a numeric allocation id, got '${allocation}'`);
+  }
+
+  const entries = await new AuditJournal(config.audit.logPath).query({
+    allocationId,
+    since: parseDateOption(args, '--since'),
+    until: parseDateOption(args, '--until'),
+  });
+
+  if (args.includes('--json')) {
+    process.stdout.write(entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+  } else if (entries.length === 0) {
+    print('No matching audit entries.');
+  } else {
+    print(entries.map(formatAuditEntry).join('\n'));
+  }
+  return 0;
+}
+
+export type Command = (context: CliContext, args: string[]) => Promise<number>;
+
+/** One-shot commands by name; `run` and `sync` without `--once` start the polling loop instead. */
+export const commands: Record<string, Command | undefined> = {
+  plan: runPlan,
+  diff: runPlan,
+  'list-rules': runListRules,
+  'list-allocations': runListAllocations,
+  prune: runPrune,
+  check: runCheck,
+  audit: runAudit,
+};
@@ -0,0 +1,50 @@
+/**
+ * Runs the worker over every item with at most `limit` calls in flight,
+ * starting items in order. The worker is expected to handle its own errors.
+ */
+export const runWithConcurrency = async <T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+/**
+ * Spaces calls out evenly so no more than `perSecond` start within a second,
+ * however many callers wait at once. An aborted signal rejects a pending wait.
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private readonly perSecond: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.perSecond;
+    if (slot > now) {
+      await new Promise<void>((resolve, reject) => {
+        // The signal outlives every wait, so the listener goes with the timer.
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, slot - now);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+  }
+}
@@ -1,7 +1,11 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
+import { DeletionGraceOptions } from './deletionGrace';
+import { DeletionGuardOptions } from './deletionGuard';
+import { RetryOptions } from './retry';
 
-dotenv.config();
+// Quiet, since one-shot commands such as `plan --json` keep stdout for their output.
+dotenv.config({ quiet: true });
 
 const targetIpMapParser = z
   .string()
@@ -38,31 +42,246 @@ const targetIpMapParser = z
     }
   });
 
+const truthyValues = new Set(['1', 'true', 'yes', 'y', 'on']);
+
+const booleanFlag = z
+  .string()
+  .optional()
+  .transform((value) => (value ? truthyValues.has(value.trim().toLowerCase()) : false));
+
+const nodeIdsParser = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value || value.trim().length === 0) {
+      return undefined;
+    }
+    if (value.trim().toLowerCase() === 'all') {
+      return 'all' as const;
+    }
+    const ids: number[] = [];
+    for (const entry of value.split(',')) {
+      const trimmed = entry.trim();
+      if (!/^\d+$/.test(trimmed)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `PTERODACTYL_NODE_IDS entry '${trimmed}' must be a non-negative integer or 'all'.`,
+        });
+        return z.NEVER;
+      }
+      const id = Number.parseInt(trimmed, 10);
+      if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  });
+
+const nodeSettingsSchema = z.record(
+  z.string().regex(/^\d+$/, 'PTERODACTYL_NODE_SETTINGS keys must be node ids'),
+  z
+    .object({
+      namePrefix: z.string().trim().min(1).optional(),
+      targetIpDefault: z.string().trim().min(1).optional(),
+      targetIpMap: z.record(z.string(), z.string().trim().min(1)).optional(),
+    })
+    .strict(),
+);
+
+const nodeSettingsParser = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value || value.trim().length === 0) {
+      return {};
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Failed to parse PTERODACTYL_NODE_SETTINGS JSON: ${(error as Error).message}`,
+      });
+      return z.NEVER;
+    }
+    const result = nodeSettingsSchema.safeParse(parsed);
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid PTERODACTYL_NODE_SETTINGS: ${result.error.issues
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; ')}`,
+      });
+      return z.NEVER;
+    }
+    return result.data;
+  });
+
+const nameTemplatePlaceholders = [
+  'prefix',
+  'allocationId',
+  'serverName',
+  'serverIdentifier',
+  'node',
+  'ip',
+  'port',
+];
+
+const nameTemplateParser = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    const template = value?.trim() || '{prefix}{allocationId}';
+    const unknown = [...template.matchAll(/\{([^{}]*)\}/g)]
+      .map((match) => match[1])
+      .filter((name) => !nameTemplatePlaceholders.includes(name));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `PORT_FORWARD_NAME_TEMPLATE uses unknown placeholder(s) ${unknown
+          .map((name) => `{${name}}`)
+          .join(
+            ', ',
+          )}; available: ${nameTemplatePlaceholders.map((name) => `{${name}}`).join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    // Ownership and the allocation id are read back from the start of the name.
+    if (!/^\{prefix\}\{allocationId\}($|[^\w{-])/.test(template)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'PORT_FORWARD_NAME_TEMPLATE must start with {prefix}{allocationId}, followed by the end of the name or a separator such as a space (not a letter, digit, underscore or hyphen).',
+      });
+      return z.NEVER;
+    }
+    return template;
+  });
+
 const envSchema = z
   .object({
     PTERODACTYL_URL: z.string().url('PTERODACTYL_URL must be a valid URL'),
     PTERODACTYL_API_KEY: z.string().min(1, 'PTERODACTYL_API_KEY is required'),
+    PTERODACTYL_CLIENT_API_KEY: z.string().optional(),
     PTERODACTYL_NODE_ID: z.coerce
       .number({ error: 'PTERODACTYL_NODE_ID must be a number' })
       .int('PTERODACTYL_NODE_ID must be an integer')
-      .nonnegative('PTERODACTYL_NODE_ID must be >= 0'),
+      .nonnegative('PTERODACTYL_NODE_ID must be >= 0')
+      .optional(),
+    PTERODACTYL_NODE_IDS: nodeIdsParser,
+    PTERODACTYL_NODE_SETTINGS: nodeSettingsParser,
     SYNC_INTERVAL_SECONDS: z.coerce
       .number({ error: 'SYNC_INTERVAL_SECONDS must be a number' })
       .int('SYNC_INTERVAL_SECONDS must be an integer')
       .positive('SYNC_INTERVAL_SECONDS must be greater than zero')
       .default(30),
-    UDM_URL: z.string().url('UDM_URL must be a valid URL'),
-    UDM_USERNAME: z.string().min(1, 'UDM_USERNAME is required'),
-    UDM_PASSWORD: z.string().min(1, 'UDM_PASSWORD is required'),
+    SHUTDOWN_TIMEOUT_SECONDS: z.coerce
+      .number({ error: 'SHUTDOWN_TIMEOUT_SECONDS must be a number' })
+      .nonnegative('SHUTDOWN_TIMEOUT_SECONDS must be >= 0')
+      .default(30),
+    ROUTER_BACKEND: z.enum(['udm', 'nftables', 'iptables']).default('udm'),
+    NFT_TABLE: z
+      .string()
+      .regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'NFT_TABLE may only contain letters, digits and _')
+      .default('ptero_udm_sync'),
+    IPTABLES_CHAIN: z
+      .string()
+      .regex(/^[A-Za-z][A-Za-z0-9_-]{0,27}$/, 'IPTABLES_CHAIN must be a valid chain name')
+      .default('PTERO_UDM_SYNC'),
+    NETFILTER_STATE_PATH: z.string().min(1).default('data/netfilter-forwards.json'),
+    UDM_URL: z.string().url('UDM_URL must be a valid URL').optional(),
+    UDM_USERNAME: z.string().optional(),
+    UDM_PASSWORD: z.string().optional(),
+    UDM_API_KEY: z.string().optional(),
+    UDM_CONTROLLER_TYPE: z.enum(['auto', 'unifi-os', 'standalone']).default('auto'),
     UDM_SITE: z.string().min(1).default('default'),
     UDM_ALLOW_SELF_SIGNED: z.coerce.boolean().default(false),
     PORT_FORWARD_NAME_PREFIX: z.string().min(1).default('ptero-alloc-'),
+    PORT_FORWARD_NAME_TEMPLATE: nameTemplateParser,
     PORT_FORWARD_PROTOCOL: z.enum(['tcp', 'udp', 'tcp_udp']).default('tcp_udp'),
     TARGET_IP_DEFAULT: z.string().optional(),
     TARGET_IP_MAP: targetIpMapParser,
     UDM_WAN_IP: z.string().min(1).default('any'),
     PORT_FORWARD_SOURCE: z.string().min(1).default('any'),
     PORT_FORWARD_DESTINATION: z.string().min(1).default('any'),
+    DRY_RUN: booleanFlag,
+    MAX_DELETIONS_PER_CYCLE: z.coerce
+      .number({ error: 'MAX_DELETIONS_PER_CYCLE must be a number' })
+      .int('MAX_DELETIONS_PER_CYCLE must be an integer')
+      .nonnegative('MAX_DELETIONS_PER_CYCLE must be >= 0')
+      .optional(),
+    MAX_DELETION_PERCENT: z.coerce
+      .number({ error: 'MAX_DELETION_PERCENT must be a number' })
+      .min(0, 'MAX_DELETION_PERCENT must be between 0 and 100')
+      .max(100, 'MAX_DELETION_PERCENT must be between 0 and 100')
+      .optional(),
+    ALLOW_EMPTY_ALLOCATIONS: booleanFlag,
+    FORCE_DELETIONS: booleanFlag,
+    DELETION_GRACE_CYCLES: z.coerce
+      .number({ error: 'DELETION_GRACE_CYCLES must be a number' })
+      .int('DELETION_GRACE_CYCLES must be an integer')
+      .nonnegative('DELETION_GRACE_CYCLES must be >= 0')
+      .default(0),
+    DELETION_GRACE_MINUTES: z.coerce
+      .number({ error: 'DELETION_GRACE_MINUTES must be a number' })
+      .nonnegative('DELETION_GRACE_MINUTES must be >= 0')
+      .default(0),
+    DISABLE_PENDING_DELETIONS: booleanFlag,
+    PENDING_DELETIONS_PATH: z.string().min(1).default('data/pending-deletions.json'),
+    MERGE_PORT_RANGES: booleanFlag,
+    ONLY_ASSIGNED_ALLOCATIONS: booleanFlag,
+    MIGRATE_NAME_PREFIXES: z.string().optional(),
+    ADOPT_UNMANAGED_RULES: booleanFlag,
+    MALFORMED_RULE_POLICY: z.enum(['warn', 'delete', 'disable']).default('warn'),
+    APPLY_CONCURRENCY: z.coerce
+      .number({ error: 'APPLY_CONCURRENCY must be a number' })
+      .int('APPLY_CONCURRENCY must be an integer')
+      .positive('APPLY_CONCURRENCY must be greater than zero')
+      .default(4),
+    APPLY_RATE_LIMIT: z.coerce
+      .number({ error: 'APPLY_RATE_LIMIT must be a number' })
+      .positive('APPLY_RATE_LIMIT must be greater than zero')
+      .optional(),
+    FAILED_CHANGE_MAX_BACKOFF_CYCLES: z.coerce
+      .number({ error: 'FAILED_CHANGE_MAX_BACKOFF_CYCLES must be a number' })
+      .int('FAILED_CHANGE_MAX_BACKOFF_CYCLES must be an integer')
+      .nonnegative('FAILED_CHANGE_MAX_BACKOFF_CYCLES must be >= 0')
+      .default(16),
+    HTTP_MAX_READ_RETRIES: z.coerce
+      .number({ error: 'HTTP_MAX_READ_RETRIES must be a number' })
+      .int('HTTP_MAX_READ_RETRIES must be an integer')
+      .nonnegative('HTTP_MAX_READ_RETRIES must be >= 0')
+      .default(4),
+    HTTP_MAX_WRITE_RETRIES: z.coerce
+      .number({ error: 'HTTP_MAX_WRITE_RETRIES must be a number' })
+      .int('HTTP_MAX_WRITE_RETRIES must be an integer')
+      .nonnegative('HTTP_MAX_WRITE_RETRIES must be >= 0')
+      .default(2),
+    HTTP_RETRY_BASE_DELAY_MS: z.coerce
+      .number({ error: 'HTTP_RETRY_BASE_DELAY_MS must be a number' })
+      .int('HTTP_RETRY_BASE_DELAY_MS must be an integer')
+      .positive('HTTP_RETRY_BASE_DELAY_MS must be greater than zero')
+      .default(500),
+    HTTP_RETRY_MAX_DELAY_MS: z.coerce
+      .number({ error: 'HTTP_RETRY_MAX_DELAY_MS must be a number' })
+      .int('HTTP_RETRY_MAX_DELAY_MS must be an integer')
+      .positive('HTTP_RETRY_MAX_DELAY_MS must be greater than zero')
+      .default(30_000),
+    HTTP_PORT: z.coerce
+      .number({ error: 'HTTP_PORT must be a number' })
+      .int('HTTP_PORT must be an integer')
+      .min(0, 'HTTP_PORT must be between 0 and 65535')
+      .max(65535, 'HTTP_PORT must be between 0 and 65535')
+      .optional(),
+    HTTP_HOST: z.string().min(1).default('0.0.0.0'),
+    HEALTH_MAX_MISSED_INTERVALS: z.coerce
+      .number({ error: 'HEALTH_MAX_MISSED_INTERVALS must be a number' })
+      .int('HEALTH_MAX_MISSED_INTERVALS must be an integer')
+      .positive('HEALTH_MAX_MISSED_INTERVALS must be greater than zero')
+      .default(3),
+    WEBHOOK_SECRET: z.string().optional(),
+    AUDIT_LOG_PATH: z.string().optional(),
   })
   .passthrough();
 
@@ -73,28 +292,98 @@ const normalizeUrl = (value: string): string => {
   return url.toString().replace(/\/+$/, '');
 };
 
+export type NodeSelection = 'all' | readonly number[];
+
+export interface NodeSettings {
+  namePrefix?: string;
+  targetIpDefault?: string;
+  targetIpMap?: Record<string, string>;
+}
+
 const targetIpMap = env.TARGET_IP_MAP ?? {};
+const nodeSettings: Record<string, NodeSettings> = env.PTERODACTYL_NODE_SETTINGS;
+
+const nodes: NodeSelection =
+  env.PTERODACTYL_NODE_IDS ??
+  (env.PTERODACTYL_NODE_ID !== undefined ? [env.PTERODACTYL_NODE_ID] : []);
+
+if (nodes !== 'all' && nodes.length === 0) {
+  throw new Error('You must define PTERODACTYL_NODE_IDS (or PTERODACTYL_NODE_ID) to select nodes.');
+}
+
+const hasNodeTarget = (nodeId: number): boolean => {
+  const settings = nodeSettings[String(nodeId)];
+  return Boolean(settings?.targetIpDefault || Object.keys(settings?.targetIpMap ?? {}).length > 0);
+};
 
-if (!env.TARGET_IP_DEFAULT && Object.keys(targetIpMap).length === 0) {
+// Without a global target every watched node has to bring its own.
+if (
+  !env.TARGET_IP_DEFAULT &&
+  Object.keys(targetIpMap).length === 0 &&
+  (nodes === 'all' || !nodes.every(hasNodeTarget))
+) {
   throw new Error(
     'You must define either TARGET_IP_DEFAULT or TARGET_IP_MAP with at least one mapping.',
   );
 }
 
+const udmApiKey = env.UDM_API_KEY?.trim() || undefined;
+
+if (env.ROUTER_BACKEND === 'udm') {
+  if (!env.UDM_URL) {
+    throw new Error('You must define UDM_URL when ROUTER_BACKEND is udm.');
+  }
+  if (!udmApiKey && (!env.UDM_USERNAME?.trim() || !env.UDM_PASSWORD)) {
+    throw new Error('You must define either UDM_API_KEY or both UDM_USERNAME and UDM_PASSWORD.');
+  }
+  if (udmApiKey && env.UDM_CONTROLLER_TYPE === 'standalone') {
+    throw new Error(
+      'UDM_API_KEY is only supported on UniFi OS; use UDM_USERNAME and UDM_PASSWORD for standalone controllers.',
+    );
+  }
+}
+
+const deletionGuard: DeletionGuardOptions = {
+  maxDeletions: env.MAX_DELETIONS_PER_CYCLE,
+  maxDeletionPercent: env.MAX_DELETION_PERCENT,
+  allowEmptyAllocations: env.ALLOW_EMPTY_ALLOCATIONS,
+  override: env.FORCE_DELETIONS,
+};
+
+const deletionGrace: DeletionGraceOptions = {
+  cycles: env.DELETION_GRACE_CYCLES,
+  minutes: env.DELETION_GRACE_MINUTES,
+  disableRules: env.DISABLE_PENDING_DELETIONS,
+  statePath: env.PENDING_DELETIONS_PATH.trim(),
+};
+
+const retry: RetryOptions = {
+  maxReadRetries: env.HTTP_MAX_READ_RETRIES,
+  maxWriteRetries: env.HTTP_MAX_WRITE_RETRIES,
+  baseDelayMs: env.HTTP_RETRY_BASE_DELAY_MS,
+  maxDelayMs: env.HTTP_RETRY_MAX_DELAY_MS,
+};
+
 export const appConfig = {
   pterodactyl: {
     url: normalizeUrl(env.PTERODACTYL_URL),
     apiKey: env.PTERODACTYL_API_KEY,
-    nodeId: env.PTERODACTYL_NODE_ID,
+    clientApiKey: env.PTERODACTYL_CLIENT_API_KEY?.trim() || undefined,
+    nodes,
+    nodeSettings,
     pollIntervalMs: env.SYNC_INTERVAL_SECONDS * 1000,
   },
   udm: {
-    url: normalizeUrl(env.UDM_URL),
-    username: env.UDM_USERNAME.trim(),
-    password: env.UDM_PASSWORD,
+    url: env.UDM_URL ? normalizeUrl(env.UDM_URL) : '',
+    // Ignored when an API key is configured.
+    username: env.UDM_USERNAME?.trim() ?? '',
+    password: env.UDM_PASSWORD ?? '',
+    apiKey: udmApiKey,
+    controllerType: env.UDM_CONTROLLER_TYPE,
     site: env.UDM_SITE.trim(),
     allowSelfSigned: env.UDM_ALLOW_SELF_SIGNED,
     namePrefix: env.PORT_FORWARD_NAME_PREFIX.trim(),
+    nameTemplate: env.PORT_FORWARD_NAME_TEMPLATE,
     protocol: env.PORT_FORWARD_PROTOCOL,
     defaultTargetIp: env.TARGET_IP_DEFAULT?.trim(),
     targetIpMap,
@@ -102,6 +391,39 @@ export const appConfig = {
     source: env.PORT_FORWARD_SOURCE.trim(),
     destination: env.PORT_FORWARD_DESTINATION.trim(),
   },
+  router: {
+    backend: env.ROUTER_BACKEND,
+    nftTable: env.NFT_TABLE,
+    iptablesChain: env.IPTABLES_CHAIN,
+    statePath: env.NETFILTER_STATE_PATH.trim(),
+  },
+  sync: {
+    dryRun: env.DRY_RUN,
+    mergePortRanges: env.MERGE_PORT_RANGES,
+    onlyAssignedAllocations: env.ONLY_ASSIGNED_ALLOCATIONS,
+    migratePrefixes: (env.MIGRATE_NAME_PREFIXES ?? '')
+      .split(',')
+      .map((prefix) => prefix.trim())
+      .filter(Boolean),
+    adoptUnmanagedRules: env.ADOPT_UNMANAGED_RULES,
+    malformedRulePolicy: env.MALFORMED_RULE_POLICY,
+    maxChangeBackoffCycles: env.FAILED_CHANGE_MAX_BACKOFF_CYCLES,
+    applyConcurrency: env.APPLY_CONCURRENCY,
+    applyRateLimit: env.APPLY_RATE_LIMIT,
+    shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_SECONDS * 1000,
+    deletionGuard,
+    deletionGrace,
+  },
+  http: {
+    port: env.HTTP_PORT,
+    host: env.HTTP_HOST.trim(),
+    healthMaxMissedIntervals: env.HEALTH_MAX_MISSED_INTERVALS,
+    webhookSecret: env.WEBHOOK_SECRET?.trim() || undefined,
+  },
+  audit: {
+    logPath: env.AUDIT_LOG_PATH?.trim() || undefined,
+  },
+  retry,
 } as const;
 
 export type AppConfig = typeof appConfig;
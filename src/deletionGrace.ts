@@ -0,0 +1,73 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export interface DeletionGraceOptions {
+  /** Cycles a rule survives after its allocation went missing. */
+  cycles: number;
+  /** Minutes a rule survives after its allocation went missing. */
+  minutes: number;
+  /** Disable the rule while its deletion is pending instead of leaving it as is. */
+  disableRules: boolean;
+  statePath: string;
+}
+
+/** A managed rule whose allocation is missing but that is not deleted yet. */
+export interface PendingDeletion {
+  nodeId: number;
+  allocationId: number;
+  ruleId: string;
+  ruleName: string;
+  missingSince: string;
+  missingCycles: number;
+}
+
+export const isGracePeriodEnabled = (options: DeletionGraceOptions): boolean =>
+  options.cycles > 0 || options.minutes > 0;
+
+/**
+ * A pending rule may be deleted once it has been missing for more than the
+ * configured number of cycles and at least the configured number of minutes.
+ */
+export const hasGracePeriodElapsed = (
+  options: DeletionGraceOptions,
+  pending: PendingDeletion,
+  now: Date,
+): boolean =>
+  pending.missingCycles > options.cycles &&
+  now.getTime() - Date.parse(pending.missingSince) >= options.minutes * 60_000;
+
+/**
+ * JSON file holding the pending deletions keyed by rule id, so a restart does
+ * not reset the grace period of rules whose allocation is still missing.
+ */
+export class PendingDeletionStore {
+  private entries: Map<string, PendingDeletion> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<Map<string, PendingDeletion>> {
+    if (this.entries) {
+      return new Map(this.entries);
+    }
+    let stored: PendingDeletion[] = [];
+    try {
+      stored = JSON.parse(await readFile(this.filePath, 'utf8')) as PendingDeletion[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `Unable to read pending deletions from ${this.filePath}: ${(error as Error).message}`,
+        );
+      }
+    }
+    this.entries = new Map(stored.map((entry) => [entry.ruleId, entry]));
+    return new Map(this.entries);
+  }
+
+  async save(entries: Map<string, PendingDeletion>): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.tmp`;
+    await writeFile(temporary, `${JSON.stringify([...entries.values()], null, 2)}\n`, 'utf8');
+    await rename(temporary, this.filePath);
+    this.entries = new Map(entries);
+  }
+}
@@ -0,0 +1,43 @@
+export interface DeletionGuardOptions {
+  maxDeletions?: number;
+  maxDeletionPercent?: number;
+  allowEmptyAllocations: boolean;
+  override: boolean;
+}
+
+export interface DeletionGuardInput {
+  allocationCount: number;
+  managedRuleCount: number;
+  deletionCount: number;
+}
+
+/**
+ * Decides whether a node's pending deletions look like a panel-side mistake
+ * rather than genuine allocation removals. Returns the reason the change set
+ * must be held back, or null when it is safe to apply.
+ */
+export const evaluateDeletionGuard = (
+  options: DeletionGuardOptions,
+  { allocationCount, managedRuleCount, deletionCount }: DeletionGuardInput,
+): string | null => {
+  if (deletionCount === 0) {
+    return null;
+  }
+
+  if (allocationCount === 0 && !options.allowEmptyAllocations) {
+    return `Pterodactyl returned no allocations but ${deletionCount} managed rule(s) would be deleted; set ALLOW_EMPTY_ALLOCATIONS=true if this is intended`;
+  }
+
+  if (options.maxDeletions !== undefined && deletionCount > options.maxDeletions) {
+    return `${deletionCount} deletion(s) exceed MAX_DELETIONS_PER_CYCLE=${options.maxDeletions}`;
+  }
+
+  if (options.maxDeletionPercent !== undefined && managedRuleCount > 0) {
+    const percent = (deletionCount / managedRuleCount) * 100;
+    if (percent > options.maxDeletionPercent) {
+      return `${deletionCount} of ${managedRuleCount} managed rule(s) (${percent.toFixed(1)}%) would be deleted, exceeding MAX_DELETION_PERCENT=${options.maxDeletionPercent}`;
+    }
+  }
+
+  return null;
+};
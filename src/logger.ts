@@ -1,19 +1,190 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  trace(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const levelOrder: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+};
+
 const truthyValues = new Set(['1', 'true', 'yes', 'y', 'on']);
 
-const isDebugEnabled = (() => {
-  const raw = process.env.DEBUG;
-  if (!raw) {
-    return false;
+const sensitiveKeyPattern = /pass(word)?|secret|token|api[-_]?key|authorization|cookie|csrf/i;
+
+const REDACTED = '[redacted]';
+
+const parseLevel = (raw: string | undefined): LogLevel | null => {
+  const value = raw?.trim().toLowerCase();
+  return value && value in levelOrder ? (value as LogLevel) : null;
+};
+
+const resolveInitialLevel = (): LogLevel => {
+  const explicit = parseLevel(process.env.LOG_LEVEL);
+  if (explicit) {
+    return explicit;
   }
-  return truthyValues.has(raw.trim().toLowerCase());
-})();
+  // DEBUG=true predates LOG_LEVEL and still enables debug output.
+  const debug = process.env.DEBUG?.trim().toLowerCase();
+  return debug && truthyValues.has(debug) ? 'debug' : 'info';
+};
+
+const settings: { level: LogLevel; format: LogFormat; stream: 'console' | 'stderr' } = {
+  level: resolveInitialLevel(),
+  format: process.env.LOG_FORMAT?.trim().toLowerCase() === 'json' ? 'json' : 'text',
+  stream: 'console',
+};
 
-export const logDebug = (...args: unknown[]): void => {
-  if (!isDebugEnabled) {
+const secretValues = new Set<string>();
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Adjusts logger output at runtime. One-shot commands send logs to stderr so
+ * stdout only carries the command's own output.
+ */
+export const configureLogger = (
+  options: Partial<{ level: LogLevel; format: LogFormat; stream: 'console' | 'stderr' }>,
+): void => {
+  Object.assign(settings, options);
+};
+
+export const getLogLevel = (): LogLevel => settings.level;
+
+export const isLevelEnabled = (level: LogLevel): boolean =>
+  levelOrder[level] >= levelOrder[settings.level];
+
+/**
+ * Registers values (API keys, passwords, ...) that must never appear in log
+ * output, even when they end up inside a message or an unrelated field.
+ */
+export const registerSecrets = (...values: (string | undefined)[]): void => {
+  for (const value of values) {
+    if (value && value.length >= 4) {
+      secretValues.add(value);
+    }
+  }
+};
+
+/**
+ * Runs the callback with extra fields (e.g. a cycle id) attached to every log
+ * entry emitted from it, including from nested async calls.
+ */
+export const withLogContext = <T>(fields: LogFields, callback: () => T): T =>
+  contextStorage.run({ ...contextStorage.getStore(), ...fields }, callback);
+
+const maskSecrets = (value: string): string => {
+  let masked = value;
+  for (const secret of secretValues) {
+    masked = masked.split(secret).join(REDACTED);
+  }
+  return masked;
+};
+
+const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') {
+    return maskSecrets(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: maskSecrets(value.message) };
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value) || depth > 6) {
+    return '[circular]';
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [
+      key,
+      sensitiveKeyPattern.test(key) &&
+      nested !== null &&
+      ['string', 'object'].includes(typeof nested)
+        ? REDACTED
+        : redact(nested, depth + 1, seen),
+    ]),
+  );
+};
+
+const formatTextValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  }
+  return JSON.stringify(value) ?? String(value);
+};
+
+const write = (level: LogLevel, line: string): void => {
+  if (settings.stream === 'stderr') {
+    console.error(line);
     return;
   }
-  const timestamp = new Date().toISOString();
-  console.debug(`[debug ${timestamp}]`, ...args);
+  switch (level) {
+    case 'trace':
+    case 'debug':
+      console.debug(line);
+      return;
+    case 'info':
+      console.log(line);
+      return;
+    case 'warn':
+      console.warn(line);
+      return;
+    default:
+      console.error(line);
+  }
 };
 
-export const isDebug = (): boolean => isDebugEnabled;
+const emit = (level: LogLevel, component: string, message: string, fields: LogFields): void => {
+  if (!isLevelEnabled(level)) {
+    return;
+  }
+  const time = new Date().toISOString();
+  const entryFields = redact({ ...contextStorage.getStore(), ...fields }) as LogFields;
+  const msg = maskSecrets(message);
+
+  if (settings.format === 'json') {
+    write(level, JSON.stringify({ time, level, component, msg, ...entryFields }));
+    return;
+  }
+
+  const rendered = Object.entries(entryFields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatTextValue(value)}`)
+    .join(' ');
+  write(
+    level,
+    `${time} ${level.toUpperCase().padEnd(5)} [${component}] ${msg}${rendered ? ` ${rendered}` : ''}`,
+  );
+};
+
+export const createLogger = (component: string, bindings: LogFields = {}): Logger => {
+  const log =
+    (level: LogLevel) =>
+    (message: string, fields: LogFields = {}) =>
+      emit(level, component, message, { ...bindings, ...fields });
+
+  return {
+    trace: log('trace'),
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) => createLogger(component, { ...bindings, ...fields }),
+  };
+};
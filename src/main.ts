@@ -1,42 +1,118 @@
-import { appConfig } from './config';
+import { CliContext, commands, logShutdownReport, runSyncOnce } from './cli';
+import { AppConfig, appConfig } from './config';
+import { configureLogger, createLogger, registerSecrets } from './logger';
+import { NetfilterDriver } from './netfilterDriver';
 import { PterodactylClient } from './pterodactylClient';
+import { StatusServer } from './statusServer';
 import { SyncService } from './syncService';
+import { RouterDriver } from './routerDriver';
 import { UdmClient } from './udmClient';
 
+const logger = createLogger('bootstrap');
+
+const createRouterDriver = (config: AppConfig): RouterDriver => {
+  const { router, udm } = config;
+  if (router.backend === 'udm') {
+    return new UdmClient(
+      udm.url,
+      udm.username,
+      udm.password,
+      udm.site,
+      udm.allowSelfSigned,
+      udm.apiKey,
+      udm.controllerType,
+      config.retry,
+    );
+  }
+  return new NetfilterDriver({
+    backend: router.backend,
+    name: router.backend === 'nftables' ? router.nftTable : router.iptablesChain,
+    statePath: router.statePath,
+  });
+};
+
 async function bootstrap(): Promise<void> {
   const config = appConfig;
+  const [command = 'run', ...args] = process.argv.slice(2);
+  const oneShot = command === 'sync' && args.includes('--once') ? runSyncOnce : commands[command];
 
-  console.log('[bootstrap] Initialising services');
+  registerSecrets(
+    config.pterodactyl.apiKey,
+    config.pterodactyl.clientApiKey,
+    config.udm.password,
+    config.udm.apiKey,
+    config.http.webhookSecret,
+  );
+  if (oneShot) {
+    // Keep stdout clean for the command output.
+    configureLogger({ stream: 'stderr' });
+  }
 
   const pterodactylClient = new PterodactylClient(
     config.pterodactyl.url,
     config.pterodactyl.apiKey,
+    config.pterodactyl.clientApiKey,
+    config.retry,
   );
 
-  const udmClient = new UdmClient(
-    config.udm.url,
-    config.udm.username,
-    config.udm.password,
-    config.udm.site,
-    config.udm.allowSelfSigned,
-  );
+  const router = createRouterDriver(config);
+
+  const syncService = new SyncService(config, pterodactylClient, router);
+
+  if (oneShot) {
+    const context: CliContext = { config, pterodactylClient, router, syncService };
+    process.exitCode = await oneShot(context, args);
+    return;
+  }
 
-  const syncService = new SyncService(config, pterodactylClient, udmClient);
+  if (command !== 'run' && command !== 'sync') {
+    throw new Error(
+      `Unknown command '${command}'. Expected one of: run, sync [--once], ${Object.keys(commands).join(', ')}.`,
+    );
+  }
 
-  const gracefulShutdown = () => {
-    console.log('[bootstrap] Shutting down');
-    syncService.stop();
+  logger.info('Initialising services');
+
+  const statusServer =
+    config.http.port === undefined
+      ? null
+      : new StatusServer(
+          {
+            port: config.http.port,
+            host: config.http.host,
+            pollIntervalMs: config.pterodactyl.pollIntervalMs,
+            healthMaxMissedIntervals: config.http.healthMaxMissedIntervals,
+            webhookSecret: config.http.webhookSecret,
+          },
+          syncService,
+        );
+
+  let shuttingDown = false;
+  const gracefulShutdown = async () => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    logger.info('Shutting down');
+    const report = await syncService.stop();
+    await statusServer?.stop();
+    logShutdownReport(report);
     process.exit(0);
   };
 
-  process.on('SIGINT', gracefulShutdown);
-  process.on('SIGTERM', gracefulShutdown);
+  process.on('SIGINT', () => void gracefulShutdown());
+  process.on('SIGTERM', () => void gracefulShutdown());
+
+  if (config.sync.dryRun) {
+    logger.info('DRY_RUN enabled; changes will be planned but not applied');
+  }
 
+  await statusServer?.start();
   syncService.start();
-  console.log('[bootstrap] Sync service started');
+  logger.info('Sync service started');
 }
 
 bootstrap().catch((error) => {
-  console.error('[bootstrap] Fatal error:', error);
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
@@ -0,0 +1,81 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+const prefix = 'ptero_udm_sync_';
+
+export const metrics = {
+  cycleDuration: new Histogram({
+    name: `${prefix}cycle_duration_seconds`,
+    help: 'Duration of sync cycles in seconds.',
+    buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+    registers: [metricsRegistry],
+  }),
+  cycles: new Counter({
+    name: `${prefix}cycles_total`,
+    help: 'Completed sync cycles by result (success, partial, failed).',
+    labelNames: ['result'] as const,
+    registers: [metricsRegistry],
+  }),
+  managedRules: new Gauge({
+    name: `${prefix}managed_rules`,
+    help: 'Managed port forward rules found on the router, per node.',
+    labelNames: ['node'] as const,
+    registers: [metricsRegistry],
+  }),
+  allocations: new Gauge({
+    name: `${prefix}allocations`,
+    help: 'Allocations reported by Pterodactyl, per node.',
+    labelNames: ['node'] as const,
+    registers: [metricsRegistry],
+  }),
+  pendingChanges: new Gauge({
+    name: `${prefix}pending_changes`,
+    help: 'Changes computed in the latest plan, per node and action.',
+    labelNames: ['node', 'action'] as const,
+    registers: [metricsRegistry],
+  }),
+  portConflicts: new Gauge({
+    name: `${prefix}port_conflicts`,
+    help: 'Allocations held back because another rule already forwards the same WAN port, per node.',
+    labelNames: ['node'] as const,
+    registers: [metricsRegistry],
+  }),
+  skippedAllocations: new Counter({
+    name: `${prefix}allocations_missing_target_total`,
+    help: 'Allocations skipped because no target IP could be resolved.',
+    labelNames: ['node'] as const,
+    registers: [metricsRegistry],
+  }),
+  failedChanges: new Counter({
+    name: `${prefix}failed_changes_total`,
+    help: 'Router writes that failed, per node and action.',
+    labelNames: ['node', 'action'] as const,
+    registers: [metricsRegistry],
+  }),
+  udmRequests: new Counter({
+    name: `${prefix}udm_requests_total`,
+    help: 'UDM API requests by operation and HTTP status ("error" when no response).',
+    labelNames: ['operation', 'status'] as const,
+    registers: [metricsRegistry],
+  }),
+  udmReauthentications: new Counter({
+    name: `${prefix}udm_reauthentications_total`,
+    help: 'UDM sessions invalidated after an authentication error.',
+    registers: [metricsRegistry],
+  }),
+  pterodactylPageFetches: new Counter({
+    name: `${prefix}pterodactyl_page_fetches_total`,
+    help: 'Pterodactyl API page fetches by resource and HTTP status ("error" when no response).',
+    labelNames: ['resource', 'status'] as const,
+    registers: [metricsRegistry],
+  }),
+};
+
+/**
+ * Turns the outcome of an HTTP call into a low-cardinality status label.
+ */
+export const statusLabel = (status: number | undefined): string =>
+  status === undefined ? 'error' : String(status);
@@ -0,0 +1,295 @@
+import { execFile } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createLogger } from './logger';
+import { formatPortRange, PortForwardRequest, PortForwardRule, RouterDriver } from './routerDriver';
+
+const logger = createLogger('netfilter');
+
+export type NetfilterBackend = 'nftables' | 'iptables';
+
+export interface NetfilterDriverOptions {
+  backend: NetfilterBackend;
+  /** nftables table or iptables chain owned exclusively by the driver. */
+  name: string;
+  statePath: string;
+}
+
+export type CommandRunner = (command: string, args: string[], input?: string) => Promise<string>;
+
+interface StoredForward extends PortForwardRequest {
+  id: string;
+}
+
+const runCommand: CommandRunner = (command, args, input) =>
+  new Promise((resolve, reject) => {
+    const child = execFile(command, args, { timeout: 15_000 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`${command} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+    child.stdin?.end(input ?? '');
+  });
+
+const addressPattern = /^[0-9a-fA-F.:]+(\/\d{1,3})?$/;
+
+const checkAddress = (field: string, value: string, allowAny: boolean): void => {
+  if ((allowAny && value === 'any') || addressPattern.test(value)) {
+    return;
+  }
+  throw new Error(`Invalid ${field} '${value}' for a netfilter forward`);
+};
+
+const checkPort = (field: string, value: number, minimum = 1): void => {
+  if (!Number.isInteger(value) || value < minimum || value > 65535) {
+    throw new Error(`Invalid ${field} '${value}' for a netfilter forward`);
+  }
+};
+
+const validate = (forward: PortForwardRequest): void => {
+  checkAddress('internal IP', forward.internalIp, false);
+  checkAddress('source', forward.source, true);
+  checkAddress('WAN IP', forward.wanIp, true);
+  checkPort('external port', forward.externalPort);
+  checkPort('internal port', forward.internalPort);
+  if (forward.externalPortEnd !== undefined) {
+    checkPort('external port range end', forward.externalPortEnd, forward.externalPort);
+  }
+  if (forward.internalPortEnd !== undefined) {
+    checkPort('internal port range end', forward.internalPortEnd, forward.internalPort);
+  }
+};
+
+const externalPorts = (forward: PortForwardRequest): string =>
+  formatPortRange(forward.externalPort, forward.externalPortEnd);
+
+const internalPorts = (forward: PortForwardRequest): string =>
+  formatPortRange(forward.internalPort, forward.internalPortEnd);
+
+// Comments are the only free text in the ruleset; keep them quote-safe.
+const comment = (name: string): string => name.replace(/["\\\n\r]/g, '').slice(0, 120);
+
+const renderNftRule = (forward: StoredForward): string => {
+  const parts: string[] = [];
+  if (forward.source !== 'any') {
+    parts.push(`ip saddr ${forward.source}`);
+  }
+  if (forward.wanIp !== 'any') {
+    parts.push(`ip daddr ${forward.wanIp}`);
+  }
+  parts.push(
+    forward.protocol === 'tcp_udp'
+      ? `meta l4proto { tcp, udp } th dport ${externalPorts(forward)}`
+      : `${forward.protocol} dport ${externalPorts(forward)}`,
+  );
+  parts.push(`dnat to ${forward.internalIp}:${internalPorts(forward)}`);
+  parts.push(`comment "${comment(forward.name)}"`);
+  return `    ${parts.join(' ')}`;
+};
+
+/**
+ * Replaces the managed table in a single nft transaction: declaring the table
+ * first makes the delete safe when it does not exist yet.
+ */
+export const renderNftables = (table: string, forwards: StoredForward[]): string =>
+  [
+    `table ip ${table} {}`,
+    `delete table ip ${table}`,
+    `table ip ${table} {`,
+    '  chain prerouting {',
+    '    type nat hook prerouting priority dstnat; policy accept;',
+    ...forwards.filter((forward) => forward.enabled).map(renderNftRule),
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+const renderIptablesRules = (chain: string, forward: StoredForward): string[] => {
+  const protocols = forward.protocol === 'tcp_udp' ? ['tcp', 'udp'] : [forward.protocol];
+  const match = [
+    forward.source !== 'any' ? `-s ${forward.source}` : null,
+    forward.wanIp !== 'any' ? `-d ${forward.wanIp}` : null,
+  ].filter(Boolean);
+  return protocols.map((protocol) =>
+    [
+      `-A ${chain}`,
+      ...match,
+      `-p ${protocol} -m ${protocol} --dport ${externalPorts(forward).replace('-', ':')}`,
+      `-m comment --comment "${comment(forward.name)}"`,
+      `-j DNAT --to-destination ${forward.internalIp}:${internalPorts(forward)}`,
+    ].join(' '),
+  );
+};
+
+/**
+ * Rewrites the managed nat chain in one iptables-restore commit without
+ * touching any other chain.
+ */
+export const renderIptables = (chain: string, forwards: StoredForward[]): string =>
+  [
+    '*nat',
+    `:${chain} - [0:0]`,
+    `-F ${chain}`,
+    ...forwards
+      .filter((forward) => forward.enabled)
+      .flatMap((forward) => renderIptablesRules(chain, forward)),
+    'COMMIT',
+    '',
+  ].join('\n');
+
+/**
+ * Keeps DNAT forwards on a plain Linux gateway. The desired forwards live in a
+ * JSON state file; every change re-renders the whole managed table (or chain)
+ * and applies it atomically, so the kernel never sees a half-applied set.
+ */
+export class NetfilterDriver implements RouterDriver {
+  private forwards: StoredForward[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private jumpInstalled = false;
+
+  constructor(
+    private readonly options: NetfilterDriverOptions,
+    private readonly run: CommandRunner = runCommand,
+  ) {}
+
+  async listPortForwards(signal?: AbortSignal): Promise<PortForwardRule[]> {
+    const forwards = await this.exclusive(() => this.load(), signal);
+    return forwards.map((forward) => this.toRule(forward));
+  }
+
+  async createPortForward(
+    request: PortForwardRequest,
+    signal?: AbortSignal,
+  ): Promise<PortForwardRule> {
+    validate(request);
+    const forward: StoredForward = { ...request, id: randomUUID() };
+    await this.exclusive(async () => this.commit([...(await this.load()), forward]), signal);
+    return this.toRule(forward);
+  }
+
+  async updatePortForward(
+    rule: PortForwardRule,
+    request: PortForwardRequest,
+    signal?: AbortSignal,
+  ): Promise<PortForwardRule> {
+    validate(request);
+    const forward: StoredForward = { ...request, id: rule.id };
+    await this.exclusive(async () => {
+      const current = await this.load();
+      if (!current.some(({ id }) => id === rule.id)) {
+        throw new Error(`Port forward ${rule.id} not found`);
+      }
+      await this.commit(current.map((existing) => (existing.id === rule.id ? forward : existing)));
+    }, signal);
+    return this.toRule(forward);
+  }
+
+  async deletePortForward(id: string, signal?: AbortSignal): Promise<void> {
+    await this.exclusive(async () => {
+      const current = await this.load();
+      if (!current.some((forward) => forward.id === id)) {
+        throw new Error(`Port forward ${id} not found`);
+      }
+      await this.commit(current.filter((forward) => forward.id !== id));
+    }, signal);
+  }
+
+  buildPayload(request: PortForwardRequest, rule?: PortForwardRule): Record<string, unknown> {
+    return { ...request, id: rule?.id ?? null };
+  }
+
+  /**
+   * Runs operations one at a time. A ruleset is always applied as a whole, so
+   * the signal only cancels operations that have not started yet.
+   */
+  private exclusive<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const result = this.queue.then(() => {
+      signal?.throwIfAborted();
+      return operation();
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads the state file once and re-applies it, so forwards come back after
+   * a reboot or a manual flush before anything is reconciled.
+   */
+  private async load(): Promise<StoredForward[]> {
+    if (this.forwards) {
+      return this.forwards;
+    }
+    let stored: StoredForward[] = [];
+    try {
+      stored = JSON.parse(await readFile(this.options.statePath, 'utf8')) as StoredForward[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `Unable to read netfilter state from ${this.options.statePath}: ${(error as Error).message}`,
+        );
+      }
+    }
+    await this.apply(stored);
+    this.forwards = stored;
+    logger.debug('Loaded netfilter state', { count: stored.length });
+    return stored;
+  }
+
+  private async commit(next: StoredForward[]): Promise<void> {
+    await this.apply(next);
+    await this.save(next);
+    this.forwards = next;
+  }
+
+  private async apply(forwards: StoredForward[]): Promise<void> {
+    const { backend, name } = this.options;
+    if (backend === 'nftables') {
+      await this.run('nft', ['-f', '-'], renderNftables(name, forwards));
+    } else {
+      await this.run('iptables-restore', ['--noflush'], renderIptables(name, forwards));
+      await this.installJump();
+    }
+    logger.debug('Applied netfilter ruleset', { backend, count: forwards.length });
+  }
+
+  private async installJump(): Promise<void> {
+    if (this.jumpInstalled) {
+      return;
+    }
+    const jump = ['PREROUTING', '-j', this.options.name];
+    try {
+      await this.run('iptables', ['-t', 'nat', '-C', ...jump]);
+    } catch {
+      await this.run('iptables', ['-t', 'nat', '-A', ...jump]);
+      logger.info(`Added jump from nat PREROUTING to ${this.options.name}`);
+    }
+    this.jumpInstalled = true;
+  }
+
+  private async save(forwards: StoredForward[]): Promise<void> {
+    const { statePath } = this.options;
+    await mkdir(dirname(statePath), { recursive: true });
+    const temporary = `${statePath}.tmp`;
+    await writeFile(temporary, `${JSON.stringify(forwards, null, 2)}\n`, 'utf8');
+    await rename(temporary, statePath);
+  }
+
+  private toRule(forward: StoredForward): PortForwardRule {
+    return {
+      id: forward.id,
+      name: forward.name,
+      enabled: forward.enabled,
+      externalPort: externalPorts(forward),
+      internalPort: internalPorts(forward),
+      internalIp: forward.internalIp,
+      protocol: forward.protocol,
+      source: forward.source,
+      destination: forward.destination,
+      wanIp: forward.wanIp,
+      raw: { ...forward },
+    };
+  }
+}
@@ -0,0 +1,287 @@
+import { FailedChange } from './changeBackoff';
+import { PendingDeletion } from './deletionGrace';
+import { Allocation } from './pterodactylClient';
+import { formatPortRange, PortForwardRequest, PortForwardRule } from './routerDriver';
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/** Why an allocation gets no forward: no target IP, or a `udm: skip` directive. */
+export type SkipCause = 'missing-target' | 'excluded';
+
+export interface SkippedAllocation {
+  nodeId: number;
+  allocationId: number;
+  cause: SkipCause;
+  reason: string;
+}
+
+export interface PortConflict {
+  nodeId: number;
+  allocationId: number;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+}
+
+export type RuleIssue = 'duplicate' | 'malformed';
+
+export type CleanupAction = 'delete' | 'disable' | 'warn';
+
+/** A managed rule that is a duplicate or whose name cannot be parsed. */
+export interface RuleCleanup {
+  nodeId: number;
+  allocationId: number | null;
+  ruleId: string;
+  ruleName: string;
+  issue: RuleIssue;
+  action: CleanupAction;
+}
+
+export interface ChangeSet {
+  toCreate: { allocation: Allocation; input: PortForwardRequest }[];
+  toUpdate: {
+    allocationId: number;
+    rule: PortForwardRule;
+    input: PortForwardRequest;
+    changes: FieldChange[];
+  }[];
+  toDelete: { allocationId: number; rule: PortForwardRule }[];
+  skipped: SkippedAllocation[];
+  conflicts: PortConflict[];
+  cleanup: {
+    allocationId: number | null;
+    rule: PortForwardRule;
+    issue: RuleIssue;
+    action: CleanupAction;
+    /** The disabled rule written when the action is 'disable'. */
+    input?: PortForwardRequest;
+  }[];
+  pendingDeletions: PendingDeletion[];
+  blockedReason?: string;
+}
+
+export type PlannedChange =
+  | {
+      action: 'create';
+      nodeId: number;
+      allocationId: number;
+      name: string;
+      changes: FieldChange[];
+    }
+  | {
+      action: 'update';
+      nodeId: number;
+      allocationId: number;
+      ruleId: string;
+      name: string;
+      changes: FieldChange[];
+    }
+  | {
+      action: 'delete';
+      nodeId: number;
+      allocationId: number;
+      ruleId: string;
+      name: string;
+      changes: FieldChange[];
+    };
+
+export interface SyncPlan {
+  changes: PlannedChange[];
+  skipped: SkippedAllocation[];
+  conflicts: PortConflict[];
+  cleanup: RuleCleanup[];
+  pendingDeletions: PendingDeletion[];
+  failedNodes: { nodeId: number; error: string }[];
+  failedChanges: FailedChange[];
+  blockedNodes: { nodeId: number; reason: string }[];
+}
+
+export const createEmptyPlan = (): SyncPlan => ({
+  changes: [],
+  skipped: [],
+  conflicts: [],
+  cleanup: [],
+  pendingDeletions: [],
+  failedNodes: [],
+  failedChanges: [],
+  blockedNodes: [],
+});
+
+const requestFields = (input: PortForwardRequest): [string, string][] => [
+  ['name', input.name],
+  ['enabled', String(input.enabled)],
+  ['protocol', input.protocol],
+  ['externalPort', formatPortRange(input.externalPort, input.externalPortEnd)],
+  ['internalIp', input.internalIp],
+  ['internalPort', formatPortRange(input.internalPort, input.internalPortEnd)],
+  ['source', input.source],
+  ['destination', input.destination],
+  ['wanIp', input.wanIp],
+];
+
+const ruleFields = (rule: PortForwardRule): [string, string][] => [
+  ['name', rule.name],
+  ['enabled', String(rule.enabled)],
+  ['protocol', rule.protocol],
+  ['externalPort', rule.externalPort],
+  ['internalIp', rule.internalIp],
+  ['internalPort', rule.internalPort],
+  ['source', rule.source],
+  ['destination', rule.destination],
+  ['wanIp', rule.wanIp ?? 'any'],
+];
+
+/**
+ * Appends the change set computed for a node to the plan, expanding creations
+ * and deletions into field lists so every planned change reads the same way.
+ */
+export const addChangeSetToPlan = (plan: SyncPlan, nodeId: number, changeSet: ChangeSet): void => {
+  for (const { allocationId, rule } of changeSet.toDelete) {
+    plan.changes.push({
+      action: 'delete',
+      nodeId,
+      allocationId,
+      ruleId: rule.id,
+      name: rule.name,
+      changes: ruleFields(rule).map(([field, from]) => ({ field, from, to: '' })),
+    });
+  }
+
+  for (const { allocationId, rule, input, changes } of changeSet.toUpdate) {
+    plan.changes.push({
+      action: 'update',
+      nodeId,
+      allocationId,
+      ruleId: rule.id,
+      name: input.name,
+      changes,
+    });
+  }
+
+  for (const { allocation, input } of changeSet.toCreate) {
+    plan.changes.push({
+      action: 'create',
+      nodeId,
+      allocationId: allocation.id,
+      name: input.name,
+      changes: requestFields(input).map(([field, to]) => ({ field, from: '', to })),
+    });
+  }
+
+  plan.skipped.push(...changeSet.skipped);
+  plan.conflicts.push(...changeSet.conflicts);
+  for (const { allocationId, rule, issue, action } of changeSet.cleanup) {
+    plan.cleanup.push({
+      nodeId,
+      allocationId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      issue,
+      action,
+    });
+  }
+  plan.pendingDeletions.push(...changeSet.pendingDeletions);
+  if (changeSet.blockedReason) {
+    plan.blockedNodes.push({ nodeId, reason: changeSet.blockedReason });
+  }
+};
+
+const actionSymbols: Record<PlannedChange['action'], string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+};
+
+/**
+ * Renders a plan as a human readable diff, one block per rule.
+ */
+export const formatPlan = (plan: SyncPlan): string => {
+  const count = (action: PlannedChange['action']) =>
+    plan.changes.filter((change) => change.action === action).length;
+
+  const conflicts = plan.conflicts.length > 0 ? `, ${plan.conflicts.length} conflicting` : '';
+  const cleanup = plan.cleanup.length > 0 ? `, ${plan.cleanup.length} to clean up` : '';
+  const pending =
+    plan.pendingDeletions.length > 0 ? `, ${plan.pendingDeletions.length} pending deletion` : '';
+  const lines = [
+    `Plan: ${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete, ${plan.skipped.length} skipped${conflicts}${cleanup}${pending}`,
+  ];
+
+  for (const change of plan.changes) {
+    const ruleRef = change.action === 'create' ? '' : `, rule ${change.ruleId}`;
+    lines.push(
+      `${actionSymbols[change.action]} ${change.action} '${change.name}' (node ${change.nodeId}, allocation ${change.allocationId}${ruleRef})`,
+    );
+    for (const { field, from, to } of change.changes) {
+      if (change.action === 'create') {
+        lines.push(`    ${field}: ${to}`);
+      } else if (change.action === 'delete') {
+        lines.push(`    ${field}: ${from}`);
+      } else {
+        lines.push(`    ${field}: ${from} -> ${to}`);
+      }
+    }
+  }
+
+  for (const skipped of plan.skipped) {
+    lines.push(
+      `! skip allocation ${skipped.allocationId} (node ${skipped.nodeId}): ${skipped.reason}`,
+    );
+  }
+
+  for (const conflict of plan.conflicts) {
+    lines.push(
+      `! conflict for allocation ${conflict.allocationId} (node ${conflict.nodeId}): ${conflict.message}`,
+    );
+  }
+
+  for (const item of plan.cleanup) {
+    const allocation = item.allocationId === null ? '' : `, allocation ${item.allocationId}`;
+    lines.push(
+      `! ${item.issue} rule '${item.ruleName}' (node ${item.nodeId}${allocation}, rule ${item.ruleId}): ${item.action}`,
+    );
+  }
+
+  for (const item of plan.pendingDeletions) {
+    lines.push(
+      `? keep '${item.ruleName}' (node ${item.nodeId}, allocation ${item.allocationId}, rule ${item.ruleId}): allocation missing for ${item.missingCycles} cycle(s) since ${item.missingSince}`,
+    );
+  }
+
+  for (const blocked of plan.blockedNodes) {
+    lines.push(`! node ${blocked.nodeId} blocked by deletion guard: ${blocked.reason}`);
+  }
+
+  for (const failed of plan.failedNodes) {
+    lines.push(`x node ${failed.nodeId} failed: ${failed.error}`);
+  }
+
+  for (const failed of plan.failedChanges) {
+    const allocation = failed.allocationId === null ? '' : `, allocation ${failed.allocationId}`;
+    const rule = failed.ruleId ? `, rule ${failed.ruleId}` : '';
+    const outcome = failed.backedOff
+      ? `backed off after ${failed.failures} failure(s)`
+      : `failed (${failed.failures} in a row)`;
+    lines.push(
+      `x ${failed.action} '${failed.ruleName}' (node ${failed.nodeId}${allocation}${rule}) ${outcome}: ${failed.error}`,
+    );
+  }
+
+  if (
+    plan.changes.length === 0 &&
+    plan.skipped.length === 0 &&
+    plan.conflicts.length === 0 &&
+    plan.cleanup.length === 0 &&
+    plan.pendingDeletions.length === 0 &&
+    plan.failedNodes.length === 0 &&
+    plan.failedChanges.length === 0
+  ) {
+    lines.push('No changes. Managed port forwards are in sync.');
+  }
+
+  return lines.join('\n');
+};
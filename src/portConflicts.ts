@@ -0,0 +1,71 @@
+import {
+  ForwardProtocol,
+  formatPortRange,
+  PortForwardRequest,
+  PortForwardRule,
+} from './routerDriver';
+
+type PortSpan = [number, number];
+
+/**
+ * Parses a rule's external port field (`27015`, `27015-27020` or a comma
+ * separated list of both). Returns null for values that are not ports.
+ */
+export const parsePortSpans = (value: string): PortSpan[] | null => {
+  const spans: PortSpan[] = [];
+  for (const part of value.split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    spans.push(start <= end ? [start, end] : [end, start]);
+  }
+  return spans;
+};
+
+const spansOverlap = (left: PortSpan[], right: PortSpan[]): boolean =>
+  left.some(([start, end]) => right.some(([from, to]) => start <= to && from <= end));
+
+const protocolsOverlap = (left: ForwardProtocol, right: ForwardProtocol): boolean =>
+  left === right || left === 'tcp_udp' || right === 'tcp_udp';
+
+const wanIpsOverlap = (left: string, right: string): boolean =>
+  left === 'any' || right === 'any' || left === right;
+
+/**
+ * Finds an enabled rule that already forwards part of the WAN ports a desired
+ * forward would claim, on the same WAN IP and an overlapping protocol.
+ */
+export const findConflictingRule = (
+  request: PortForwardRequest,
+  rules: PortForwardRule[],
+): PortForwardRule | null => {
+  const wanted: PortSpan[] = [
+    [request.externalPort, request.externalPortEnd ?? request.externalPort],
+  ];
+  return (
+    rules.find((rule) => {
+      if (!rule.enabled) {
+        return false;
+      }
+      const spans = parsePortSpans(rule.externalPort);
+      return (
+        spans !== null &&
+        spansOverlap(wanted, spans) &&
+        protocolsOverlap(request.protocol, rule.protocol) &&
+        wanIpsOverlap(request.wanIp, rule.wanIp ?? 'any')
+      );
+    }) ?? null
+  );
+};
+
+const describePorts = (ports: string, protocol: ForwardProtocol, wanIp: string): string =>
+  `${ports}/${protocol} on WAN ${wanIp}`;
+
+export const describeConflict = (request: PortForwardRequest, rule: PortForwardRule): string => {
+  const wanted = formatPortRange(request.externalPort, request.externalPortEnd);
+  const taken = describePorts(rule.externalPort, rule.protocol, rule.wanIp ?? 'any');
+  return `${describePorts(wanted, request.protocol, request.wanIp)} overlaps rule '${rule.name}' (${taken})`;
+};
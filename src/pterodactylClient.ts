@@ -1,5 +1,20 @@
-import axios, { AxiosInstance } from 'axios';
-import { logDebug } from './logger';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { createLogger } from './logger';
+import { metrics, statusLabel } from './metrics';
+import { defaultRetryOptions, RetryOptions, withRetry } from './retry';
+
+const logger = createLogger('ptero');
+
+export interface AllocationServer {
+  id: number;
+  uuid: string;
+  identifier: string;
+  name: string;
+  suspended: boolean;
+}
+
+/** Power state reported by the Client API (`current_state`). */
+export type ServerPowerState = 'offline' | 'starting' | 'running' | 'stopping';
 
 export interface Allocation {
   id: number;
@@ -8,6 +23,14 @@ export interface Allocation {
   port: number;
   notes: string | null;
   isDefault: boolean;
+  assigned: boolean;
+  /** The server the allocation is attached to, when the panel reported one. */
+  server: AllocationServer | null;
+}
+
+export interface PanelNode {
+  id: number;
+  name: string;
 }
 
 interface AllocationResponse {
@@ -19,12 +42,42 @@ interface AllocationResponse {
     port: number;
     notes: string | null;
     is_default: boolean;
+    assigned?: boolean;
+  };
+  relationships?: {
+    server?: {
+      object: string;
+      attributes: {
+        id: number;
+        uuid: string;
+        identifier: string;
+        name: string;
+        suspended?: boolean;
+        status?: string | null;
+      } | null;
+    };
+  };
+}
+
+interface NodeResponse {
+  object: string;
+  attributes: {
+    id: number;
+    name: string;
   };
 }
 
-interface PaginatedResponse {
+interface ServerResourcesResponse {
   object: string;
-  data: AllocationResponse[];
+  attributes: {
+    current_state: ServerPowerState;
+    is_suspended?: boolean;
+  };
+}
+
+interface PaginatedResponse<T> {
+  object: string;
+  data: T[];
   meta?: {
     pagination?: {
       total: number;
@@ -38,13 +91,126 @@ interface PaginatedResponse {
 
 export class PterodactylClient {
   private readonly http: AxiosInstance;
+  private readonly clientHttp: AxiosInstance | null;
 
   constructor(
     private readonly baseUrl: string,
     apiKey: string,
+    clientApiKey?: string,
+    private readonly retry: RetryOptions = defaultRetryOptions,
   ) {
-    this.http = axios.create({
-      baseURL: `${baseUrl}/api/application`,
+    this.http = this.createHttp('application', apiKey);
+    // Power state is only exposed by the Client API, which needs its own key.
+    this.clientHttp = clientApiKey ? this.createHttp('client', clientApiKey) : null;
+  }
+
+  get supportsPowerState(): boolean {
+    return this.clientHttp !== null;
+  }
+
+  async listAllocations(nodeId: number, signal?: AbortSignal): Promise<Allocation[]> {
+    const allocations = await this.fetchAllPages<AllocationResponse, Allocation>(
+      `/nodes/${nodeId}/allocations`,
+      'allocations',
+      { nodeId },
+      (item) => this.mapAllocation(item),
+      { include: 'server' },
+      signal,
+    );
+
+    logger.debug('Completed allocation fetch', {
+      nodeId,
+      total: allocations.length,
+    });
+
+    return allocations;
+  }
+
+  async listNodes(signal?: AbortSignal): Promise<PanelNode[]> {
+    const nodes = await this.fetchAllPages<NodeResponse, PanelNode>(
+      '/nodes',
+      'nodes',
+      {},
+      (item) => ({
+        id: item.attributes.id,
+        name: item.attributes.name,
+      }),
+      {},
+      signal,
+    );
+
+    logger.debug('Completed node fetch', { total: nodes.length });
+
+    return nodes;
+  }
+
+  async getServerPowerState(identifier: string, signal?: AbortSignal): Promise<ServerPowerState> {
+    if (!this.clientHttp) {
+      throw new Error('A Pterodactyl Client API key is required to read server power state');
+    }
+    const clientHttp = this.clientHttp;
+    const response = await this.get<ServerResourcesResponse>(
+      'resources',
+      () =>
+        clientHttp.get<ServerResourcesResponse>(
+          `/servers/${encodeURIComponent(identifier)}/resources`,
+          { signal },
+        ),
+      signal,
+    );
+
+    const state = response.data?.attributes?.current_state;
+    if (!state) {
+      throw new Error(`Unexpected payload when fetching resources of server ${identifier}`);
+    }
+    logger.debug('Fetched server power state', { server: identifier, state });
+    return state;
+  }
+
+  /** Reads the account behind the Client API key, which fails unless the key is accepted. */
+  async verifyClientAccess(signal?: AbortSignal): Promise<void> {
+    if (!this.clientHttp) {
+      throw new Error('No Pterodactyl Client API key is configured');
+    }
+    const clientHttp = this.clientHttp;
+    await this.get('account', () => clientHttp.get('/account', { signal }), signal);
+  }
+
+  /**
+   * Runs a GET with retries, counting every attempt by resource and status.
+   */
+  private get<T>(
+    resource: string,
+    request: () => Promise<AxiosResponse<T>>,
+    signal?: AbortSignal,
+  ): Promise<AxiosResponse<T>> {
+    return withRetry(
+      async () => {
+        let response: AxiosResponse<T>;
+        try {
+          response = await request();
+        } catch (error) {
+          metrics.pterodactylPageFetches.inc({
+            resource,
+            status: statusLabel(axios.isAxiosError(error) ? error.response?.status : undefined),
+          });
+          throw error;
+        }
+        metrics.pterodactylPageFetches.inc({ resource, status: statusLabel(response.status) });
+        return response;
+      },
+      {
+        label: `Pterodactyl ${resource} fetch`,
+        maxRetries: this.retry.maxReadRetries,
+        options: this.retry,
+        signal,
+      },
+    );
+  }
+
+  private createHttp(api: 'application' | 'client', apiKey: string): AxiosInstance {
+    return axios.create({
+      baseURL: `${this.baseUrl}/api/${api}`,
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
@@ -54,39 +220,57 @@ export class PterodactylClient {
     });
   }
 
-  async listAllocations(nodeId: number): Promise<Allocation[]> {
-    const allocations: Allocation[] = [];
+  private mapAllocation({ attributes, relationships }: AllocationResponse): Allocation {
+    const server = relationships?.server?.attributes ?? null;
+    return {
+      id: attributes.id,
+      ip: attributes.ip,
+      ipAlias: attributes.ip_alias,
+      port: attributes.port,
+      notes: attributes.notes,
+      isDefault: attributes.is_default,
+      assigned: attributes.assigned ?? server !== null,
+      server: server && {
+        id: server.id,
+        uuid: server.uuid,
+        identifier: server.identifier,
+        name: server.name,
+        suspended: server.suspended ?? server.status === 'suspended',
+      },
+    };
+  }
+
+  private async fetchAllPages<TRaw, TItem>(
+    path: string,
+    label: string,
+    context: Record<string, unknown>,
+    map: (item: TRaw) => TItem,
+    query: Record<string, string> = {},
+    signal?: AbortSignal,
+  ): Promise<TItem[]> {
+    const items: TItem[] = [];
     let currentPage = 1;
 
     for (;;) {
-      logDebug('[ptero] Fetching allocations', {
-        nodeId,
+      logger.debug(`Fetching ${label}`, {
+        ...context,
         page: currentPage,
       });
-      const response = await this.http.get<PaginatedResponse>(`/nodes/${nodeId}/allocations`, {
-        params: {
-          page: currentPage,
-          per_page: 50,
-        },
-      });
+      const params = { ...query, page: currentPage, per_page: 50 };
+      const response = await this.get(
+        label,
+        () => this.http.get<PaginatedResponse<TRaw>>(path, { params, signal }),
+        signal,
+      );
 
       const payload = response.data;
       if (!Array.isArray(payload.data)) {
-        throw new Error('Unexpected payload when fetching allocations from Pterodactyl');
+        throw new Error(`Unexpected payload when fetching ${label} from Pterodactyl`);
       }
 
-      allocations.push(
-        ...payload.data.map((item) => ({
-          id: item.attributes.id,
-          ip: item.attributes.ip,
-          ipAlias: item.attributes.ip_alias,
-          port: item.attributes.port,
-          notes: item.attributes.notes,
-          isDefault: item.attributes.is_default,
-        })),
-      );
-      logDebug('[ptero] Received allocation page', {
-        nodeId,
+      items.push(...payload.data.map(map));
+      logger.debug(`Received ${label} page`, {
+        ...context,
         page: currentPage,
         count: payload.data.length,
       });
@@ -98,11 +282,6 @@ export class PterodactylClient {
       currentPage += 1;
     }
 
-    logDebug('[ptero] Completed allocation fetch', {
-      nodeId,
-      total: allocations.length,
-    });
-
-    return allocations;
+    return items;
   }
 }
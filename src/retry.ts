@@ -0,0 +1,129 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import axios from 'axios';
+import { createLogger } from './logger';
+
+const logger = createLogger('retry');
+
+export interface RetryOptions {
+  /** Retries of reads: listing rules, allocations, nodes and power states. */
+  maxReadRetries: number;
+  /** Retries of creates, updates and deletes on the router. */
+  maxWriteRetries: number;
+  baseDelayMs: number;
+  /** Upper bound of a single wait, including waits requested via Retry-After. */
+  maxDelayMs: number;
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  maxReadRetries: 4,
+  maxWriteRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * - `rejected`: the server certainly did not act on the request (429, or no
+ *   connection could be made), so it is safe to send again.
+ * - `ambiguous`: the request may have been applied (5xx, timeouts, dropped
+ *   connections); only idempotent requests are sent again blindly.
+ * - `fatal`: not worth retrying (4xx, cancellations, programming errors).
+ */
+export type FailureKind = 'rejected' | 'ambiguous' | 'fatal';
+
+const unreachableCodes = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+]);
+
+export const classifyFailure = (error: unknown): FailureKind => {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return 'fatal';
+  }
+  const status = error.response?.status;
+  if (status === undefined) {
+    return error.code && unreachableCodes.has(error.code) ? 'rejected' : 'ambiguous';
+  }
+  if (status === 429) {
+    return 'rejected';
+  }
+  return status >= 500 ? 'ambiguous' : 'fatal';
+};
+
+/** Reads a Retry-After header given in seconds or as an HTTP date. */
+export const retryAfterMs = (error: unknown, now = Date.now()): number | undefined => {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+  const header: unknown = error.response?.headers?.['retry-after'];
+  if (typeof header !== 'string' || header.trim().length === 0) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Exponential backoff with jitter: the n-th retry waits between half and all
+ * of `baseDelayMs * 2^n`, capped at `maxDelayMs`.
+ */
+export const backoffDelay = (
+  options: RetryOptions,
+  retry: number,
+  random: () => number = Math.random,
+): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+const describeFailure = (error: unknown): string => {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === undefined ? (error as Error).message : `HTTP ${status}`;
+};
+
+export interface RetryCall {
+  /** Used in log messages, e.g. `UDM list`. */
+  label: string;
+  maxRetries: number;
+  options: RetryOptions;
+  /** Which failures to retry; everything but fatal ones by default. */
+  retryOn?: (kind: FailureKind) => boolean;
+  /** Cuts a pending backoff short and prevents further attempts. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs an operation, retrying failed attempts after a backoff. The attempt
+ * number (0 for the first call) is passed along so callers can verify the
+ * outcome of an ambiguous earlier attempt before sending a request again.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { label, maxRetries, options, retryOn = (kind) => kind !== 'fatal', signal }: RetryCall,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    signal?.throwIfAborted();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxRetries || !retryOn(classifyFailure(error))) {
+        throw error;
+      }
+      const delayMs = Math.min(
+        options.maxDelayMs,
+        retryAfterMs(error) ?? backoffDelay(options, attempt),
+      );
+      logger.warn(`${label} failed (${describeFailure(error)}); retrying in ${delayMs}ms`, {
+        retry: attempt + 1,
+        maxRetries,
+      });
+      await sleep(delayMs, undefined, { signal });
+    }
+  }
+};
@@ -0,0 +1,57 @@
+export type ForwardProtocol = 'tcp' | 'udp' | 'tcp_udp';
+
+export type RouterBackend = 'udm' | 'nftables' | 'iptables';
+
+export interface PortForwardRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  externalPort: string;
+  internalPort: string;
+  internalIp: string;
+  protocol: ForwardProtocol;
+  source: string;
+  destination: string;
+  wanIp?: string;
+  /** The backend's own representation of the rule, kept for updates and auditing. */
+  raw: Record<string, unknown>;
+}
+
+export interface PortForwardRequest {
+  name: string;
+  enabled: boolean;
+  externalPort: number;
+  internalPort: number;
+  /** Last port of a range forward; absent for a single port. */
+  externalPortEnd?: number;
+  internalPortEnd?: number;
+  internalIp: string;
+  protocol: ForwardProtocol;
+  source: string;
+  destination: string;
+  wanIp: string;
+}
+
+/**
+ * A router that can hold port forwards. SyncService reconciles against this
+ * interface only, so every backend shares the same planning and guard logic.
+ * The optional signal cancels an operation that has not completed yet.
+ */
+export interface RouterDriver {
+  listPortForwards(signal?: AbortSignal): Promise<PortForwardRule[]>;
+  createPortForward(request: PortForwardRequest, signal?: AbortSignal): Promise<PortForwardRule>;
+  updatePortForward(
+    rule: PortForwardRule,
+    request: PortForwardRequest,
+    signal?: AbortSignal,
+  ): Promise<PortForwardRule>;
+  deletePortForward(id: string, signal?: AbortSignal): Promise<void>;
+  /** The backend representation a create (no rule) or update would write. */
+  buildPayload(request: PortForwardRequest, rule?: PortForwardRule): Record<string, unknown>;
+}
+
+/**
+ * Renders a port or port range the way UniFi stores it (`25565` or `25565-25600`).
+ */
+export const formatPortRange = (start: number, end?: number): string =>
+  end !== undefined && end !== start ? `${start}-${end}` : String(start);
@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createLogger } from './logger';
+import { metricsRegistry } from './metrics';
+import { SyncService } from './syncService';
+
+export interface StatusServerOptions {
+  port: number;
+  host: string;
+  pollIntervalMs: number;
+  healthMaxMissedIntervals: number;
+  webhookSecret?: string;
+}
+
+const logger = createLogger('http');
+
+const maxWebhookBodyBytes = 64 * 1024;
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Accepts either the shared secret as a bearer token or an HMAC-SHA256
+ * signature of the raw body in `X-Signature-256: sha256=<hex>`.
+ */
+export const verifyWebhookRequest = (
+  secret: string,
+  headers: IncomingMessage['headers'],
+  body: Buffer,
+): boolean => {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return safeEqual(authorization.slice('Bearer '.length), secret);
+  }
+
+  const signature = headers['x-signature-256'];
+  if (typeof signature === 'string' && signature.startsWith('sha256=')) {
+    const expected = createHmac('sha256', secret).update(body).digest('hex');
+    return safeEqual(signature.slice('sha256='.length).toLowerCase(), expected);
+  }
+
+  return false;
+};
+
+export class StatusServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private readonly options: StatusServerOptions,
+    private readonly syncService: SyncService,
+  ) {}
+
+  get port(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : null;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Request failed', { path: req.url, error: (error as Error).message });
+        if (!res.headersSent) {
+          this.send(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    logger.info(`Listening on ${this.options.host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === '/sync' && this.options.webhookSecret) {
+      await this.handleSyncWebhook(req, res, this.options.webhookSecret);
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    switch (path) {
+      case '/healthz': {
+        const maxAgeMs = this.options.pollIntervalMs * this.options.healthMaxMissedIntervals;
+        const healthy = this.syncService.isHealthy(maxAgeMs);
+        this.send(res, healthy ? 200 : 503, {
+          status: healthy ? 'ok' : 'stale',
+          lastSuccessfulCycleAt: this.syncService.getStatus().lastSuccessfulCycleAt,
+        });
+        return;
+      }
+      case '/readyz': {
+        const ready = this.syncService.isReady();
+        this.send(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not ready' });
+        return;
+      }
+      case '/status':
+        this.send(res, 200, this.syncService.getStatus());
+        return;
+      case '/metrics': {
+        const payload = await metricsRegistry.metrics();
+        res.writeHead(200, {
+          'Content-Type': metricsRegistry.contentType,
+          'Content-Length': Buffer.byteLength(payload),
+        });
+        res.end(payload);
+        return;
+      }
+      default:
+        this.send(res, 404, { error: 'Not found' });
+    }
+  }
+
+  private async handleSyncWebhook(
+    req: IncomingMessage,
+    res: ServerResponse,
+    secret: string,
+  ): Promise<void> {
+    if (req.method !== 'POST') {
+      this.send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    if (!body) {
+      this.send(res, 413, { error: 'Payload too large' });
+      return;
+    }
+
+    if (!verifyWebhookRequest(secret, req.headers, body)) {
+      logger.warn('Rejected unauthenticated sync request', {
+        remoteAddress: req.socket.remoteAddress,
+      });
+      this.send(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const state = this.syncService.requestSync();
+    logger.info(`Sync requested via webhook (${state})`);
+    this.send(res, state === 'stopping' ? 503 : 202, { status: state });
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Buffer | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > maxWebhookBodyBytes) {
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private send(res: ServerResponse, statusCode: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+      'Cache-Control': 'no-store',
+    });
+    res.end(payload);
+  }
+}
@@ -1,20 +1,127 @@
+import { randomUUID } from 'node:crypto';
+import { AllocationDirectives, parseAllocationDirectives } from './allocationDirectives';
+import { AuditEntry, AuditJournal } from './auditJournal';
+import { ChangeBackoff, FailedChange } from './changeBackoff';
+import { RateLimiter, runWithConcurrency } from './concurrency';
 import { AppConfig } from './config';
-import { logDebug } from './logger';
-import { Allocation, PterodactylClient } from './pterodactylClient';
-import { PortForwardRequest, PortForwardRule, UdmClient, UdmProtocol } from './udmClient';
+import {
+  hasGracePeriodElapsed,
+  isGracePeriodEnabled,
+  PendingDeletion,
+  PendingDeletionStore,
+} from './deletionGrace';
+import { evaluateDeletionGuard } from './deletionGuard';
+import { createLogger, withLogContext } from './logger';
+import { metrics } from './metrics';
+import {
+  addChangeSetToPlan,
+  ChangeSet,
+  createEmptyPlan,
+  FieldChange,
+  formatPlan,
+  SyncPlan,
+} from './plan';
+import { describeConflict, findConflictingRule, parsePortSpans } from './portConflicts';
+import { Allocation, AllocationServer, PterodactylClient } from './pterodactylClient';
+import {
+  AppliedAction,
+  ClientName,
+  CycleSummary,
+  SyncStatus,
+  SyncStatusTracker,
+} from './syncStatus';
+import {
+  formatPortRange,
+  ForwardProtocol,
+  PortForwardRequest,
+  PortForwardRule,
+  RouterDriver,
+} from './routerDriver';
+
+const logger = createLogger('sync');
+
+export interface SyncNode {
+  id: number;
+  namePrefix: string;
+  defaultTargetIp?: string;
+  targetIpMap: Record<string, string>;
+}
+
+interface DesiredForward {
+  allocation: Allocation;
+  input: PortForwardRequest;
+}
+
+/** A router write queued by applyChanges. */
+interface RouterChange {
+  message: string;
+  entry: Omit<AuditEntry, 'time' | 'outcome' | 'error'>;
+  applied: AppliedAction;
+  operation: () => Promise<PortForwardRule | void>;
+}
+
+/** Change sets at least this large log their progress while being applied. */
+const progressThreshold = 20;
+
+/** A rule on the router and what owns it, as listed by `list-rules`. */
+export interface RuleOwnership {
+  rule: PortForwardRule;
+  /** The node whose name prefix the rule carries; null for unmanaged rules. */
+  nodeId: number | null;
+  /** Null for unmanaged rules and managed rules without a readable allocation id. */
+  allocationId: number | null;
+}
+
+export interface NodeAllocations {
+  nodeId: number;
+  allocations: Allocation[];
+}
+
+/** What a shutdown left undone. */
+export interface ShutdownReport {
+  /** Set when the cycle outlasted the shutdown timeout and was cancelled. */
+  timedOut: boolean;
+  /** Nodes the interrupted cycle did not sync. */
+  skippedNodes: number[];
+  /** Router writes that were cancelled or never sent. */
+  cancelledChanges: Pick<
+    FailedChange,
+    'nodeId' | 'action' | 'allocationId' | 'ruleId' | 'ruleName'
+  >[];
+}
 
 export class SyncService {
   private intervalRef: NodeJS.Timeout | null = null;
   private syncing = false;
+  private syncRequested = false;
+  private stopping = false;
+  private currentCycle: Promise<void> | null = null;
+  private readonly abortController = new AbortController();
+  private readonly unfinished: Omit<ShutdownReport, 'timedOut'> = {
+    skippedNodes: [],
+    cancelledChanges: [],
+  };
 
-  private readonly protocol: UdmProtocol;
+  private readonly protocol: ForwardProtocol;
+  private readonly status: SyncStatusTracker;
+  private readonly journal: AuditJournal | null;
+  private readonly pendingDeletions: PendingDeletionStore;
+  private readonly changeBackoff: ChangeBackoff;
+  private readonly rateLimiter: RateLimiter | null;
 
   constructor(
     private readonly config: AppConfig,
     private readonly pterodactylClient: PterodactylClient,
-    private readonly udmClient: UdmClient,
+    private readonly router: RouterDriver,
   ) {
-    this.protocol = config.udm.protocol as UdmProtocol;
+    this.protocol = config.udm.protocol as ForwardProtocol;
+    this.status = new SyncStatusTracker(config.sync.dryRun);
+    this.journal = config.audit.logPath ? new AuditJournal(config.audit.logPath) : null;
+    this.pendingDeletions = new PendingDeletionStore(config.sync.deletionGrace.statePath);
+    this.changeBackoff = new ChangeBackoff(config.sync.maxChangeBackoffCycles);
+    this.rateLimiter = config.sync.applyRateLimit
+      ? new RateLimiter(config.sync.applyRateLimit)
+      : null;
   }
 
   start(): void {
@@ -22,163 +129,1177 @@ export class SyncService {
       return;
     }
 
-    const execute = async () => {
-      try {
-        await this.runSyncCycle();
-      } catch (error) {
-        console.error('[sync] Cycle failed:', (error as Error).message);
-      }
-    };
+    this.status.markStarted();
+
+    void this.executeCycleSafely();
+    this.intervalRef = setInterval(
+      () => void this.executeCycleSafely(),
+      this.config.pterodactyl.pollIntervalMs,
+    );
+  }
 
-    void execute();
-    this.intervalRef = setInterval(execute, this.config.pterodactyl.pollIntervalMs);
+  /**
+   * Runs a cycle right away. While one is in flight the request is remembered
+   * and a single follow-up cycle runs once it finishes, so bursts coalesce.
+   */
+  requestSync(): 'started' | 'queued' | 'stopping' {
+    if (this.stopping) {
+      return 'stopping';
+    }
+    if (this.syncing) {
+      this.syncRequested = true;
+      return 'queued';
+    }
+    void this.executeCycleSafely();
+    return 'started';
   }
 
-  stop(): void {
+  /**
+   * Stops polling and waits for a running cycle to reach a safe point: the
+   * node being applied is finished, so no delete is left without its create,
+   * and the remaining nodes are skipped. Once the shutdown timeout elapses,
+   * in-flight requests are cancelled instead.
+   */
+  async stop(): Promise<ShutdownReport> {
+    this.stopping = true;
+    this.syncRequested = false;
     if (this.intervalRef) {
       clearInterval(this.intervalRef);
       this.intervalRef = null;
     }
+
+    let timedOut = false;
+    const cycle = this.currentCycle?.catch(() => undefined);
+    if (cycle) {
+      const { shutdownTimeoutMs } = this.config.sync;
+      logger.info('Waiting for the running cycle to finish', { timeoutMs: shutdownTimeoutMs });
+      let timer: NodeJS.Timeout | undefined;
+      const expired = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), shutdownTimeoutMs);
+      });
+      timedOut = await Promise.race([cycle.then(() => false), expired]);
+      clearTimeout(timer);
+      if (timedOut) {
+        logger.warn('Shutdown timeout elapsed; cancelling in-flight requests');
+        this.abortController.abort();
+        await cycle;
+      }
+    }
+
+    return {
+      timedOut,
+      skippedNodes: [...this.unfinished.skippedNodes],
+      cancelledChanges: [...this.unfinished.cancelledChanges],
+    };
+  }
+
+  getStatus(): SyncStatus {
+    return this.status.snapshot();
+  }
+
+  isReady(): boolean {
+    return this.status.isReady();
+  }
+
+  isHealthy(maxAgeMs: number): boolean {
+    return this.status.isHealthy(maxAgeMs);
+  }
+
+  /**
+   * Computes the change set for every watched node without touching the router.
+   */
+  async plan(): Promise<SyncPlan> {
+    return this.executeCycle(false);
+  }
+
+  /**
+   * Runs a single cycle outside the polling loop and returns its summary, or
+   * null when the service was stopped before the cycle started.
+   */
+  async syncOnce(): Promise<CycleSummary | null> {
+    this.status.markStarted();
+    await this.executeCycleSafely();
+    return this.status.snapshot().lastCycle;
+  }
+
+  /** Lists every rule on the router along with the node and allocation owning it. */
+  async listRules(): Promise<RuleOwnership[]> {
+    const [nodes, rules] = await Promise.all([
+      this.resolveNodes(),
+      this.trackClient('router', () => this.router.listPortForwards(this.abortController.signal)),
+    ]);
+    return rules.map((rule) => {
+      const node = nodes.find((candidate) => rule.name.startsWith(candidate.namePrefix));
+      return {
+        rule,
+        nodeId: node?.id ?? null,
+        allocationId: node
+          ? this.parseAllocationId(rule.name, node.namePrefix, rule.externalPort.includes('-'))
+          : null,
+      };
+    });
+  }
+
+  async listAllocations(): Promise<NodeAllocations[]> {
+    const nodes = await this.resolveNodes();
+    const result: NodeAllocations[] = [];
+    for (const node of nodes) {
+      const allocations = await this.trackClient('pterodactyl', () =>
+        this.pterodactylClient.listAllocations(node.id, this.abortController.signal),
+      );
+      result.push({ nodeId: node.id, allocations });
+    }
+    return result;
+  }
+
+  /**
+   * Deletes the given managed rules regardless of the panel's allocations.
+   * Unmanaged rules are never touched. The deletes are journaled and rate
+   * limited like those of a cycle; returns the ones that failed.
+   */
+  async prune(rules: RuleOwnership[]): Promise<FailedChange[]> {
+    const { signal } = this.abortController;
+    const changes = rules.flatMap(({ rule, nodeId, allocationId }): RouterChange[] =>
+      nodeId === null
+        ? []
+        : [
+            {
+              message: `Pruning port forward '${rule.name}'`,
+              entry: {
+                action: 'delete',
+                nodeId,
+                allocationId,
+                ruleId: rule.id,
+                ruleName: rule.name,
+                before: rule.raw,
+                after: null,
+              },
+              applied: 'deleted',
+              operation: () => this.router.deletePortForward(rule.id, signal),
+            },
+          ],
+    );
+
+    const failures: FailedChange[] = [];
+    await runWithConcurrency(changes, this.config.sync.applyConcurrency, async (change) => {
+      const failure = await this.applyChange(change);
+      if (failure) {
+        failures.push(failure);
+      }
+    });
+    return failures;
+  }
+
+  private async executeCycleSafely(): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    try {
+      await this.runSyncCycle();
+    } catch (error) {
+      logger.error('Cycle failed', { error: (error as Error).message });
+    }
   }
 
   private async runSyncCycle(): Promise<void> {
     if (this.syncing) {
-      console.warn('[sync] Previous cycle still running, skipping this tick');
+      logger.warn('Previous cycle still running, skipping this tick');
       return;
     }
 
     this.syncing = true;
-    console.log('[sync] Starting cycle');
-    logDebug('[sync] Poll parameters', {
+    this.currentCycle = withLogContext({ cycleId: randomUUID().slice(0, 8) }, () =>
+      this.runGuardedCycle(),
+    );
+    try {
+      await this.currentCycle;
+    } finally {
+      this.currentCycle = null;
+      this.syncing = false;
+      // The queued cycle starts only now, so that it owns currentCycle and
+      // stop() waits for it.
+      if (this.syncRequested) {
+        this.syncRequested = false;
+        void this.executeCycleSafely();
+      }
+    }
+  }
+
+  private async runGuardedCycle(): Promise<void> {
+    logger.info('Starting cycle');
+    logger.debug('Poll parameters', {
       pollIntervalMs: this.config.pterodactyl.pollIntervalMs,
-      nodeId: this.config.pterodactyl.nodeId,
+      nodes: this.config.pterodactyl.nodes,
+      dryRun: this.config.sync.dryRun,
+    });
+
+    this.status.beginCycle();
+    try {
+      const plan = await this.executeCycle(!this.config.sync.dryRun);
+      const summary = this.status.finishCycle(plan);
+      this.recordCycleMetrics(summary);
+
+      if (this.config.sync.dryRun) {
+        logger.info(`Dry run, no changes applied\n${formatPlan(plan)}`);
+      }
+
+      if (plan.failedNodes.length > 0) {
+        const failed = plan.failedNodes.map(({ nodeId }) => nodeId).join(', ');
+        logger.warn(`Cycle completed with failures on nodes ${failed}`, {
+          durationMs: summary?.durationMs,
+        });
+      } else if (plan.failedChanges.length > 0) {
+        const failed = plan.failedChanges
+          .map(({ action, ruleName, error }) => `${action} '${ruleName}' (${error})`)
+          .join(', ');
+        logger.warn(
+          `Cycle completed with ${plan.failedChanges.length} failed change(s): ${failed}`,
+          {
+            durationMs: summary?.durationMs,
+          },
+        );
+      } else {
+        logger.info('Cycle completed', { durationMs: summary?.durationMs });
+      }
+    } catch (error) {
+      this.recordCycleMetrics(this.status.finishCycle(null, error as Error));
+      throw error;
+    }
+  }
+
+  private recordCycleMetrics(summary: CycleSummary | null): void {
+    if (!summary) {
+      return;
+    }
+    metrics.cycleDuration.observe(summary.durationMs / 1000);
+    metrics.cycles.inc({ result: summary.result });
+  }
+
+  private async executeCycle(apply: boolean): Promise<SyncPlan> {
+    const [nodes, existingRules] = await Promise.all([
+      this.resolveNodes(),
+      this.trackClient('router', () => this.router.listPortForwards(this.abortController.signal)),
+    ]);
+
+    logger.debug('Data fetched', {
+      nodeCount: nodes.length,
+      ruleCount: existingRules.length,
     });
 
+    // Rules no node owns; migration and adoption take them over one by one.
+    const unmanagedRules = existingRules.filter(
+      (rule) => !nodes.some((node) => rule.name.startsWith(node.namePrefix)),
+    );
+
+    const graceEnabled = isGracePeriodEnabled(this.config.sync.deletionGrace);
+    const previousPending = graceEnabled
+      ? await this.pendingDeletions.load()
+      : new Map<string, PendingDeletion>();
+
+    const plan = createEmptyPlan();
+    for (const node of nodes) {
+      if (apply && this.stopping) {
+        logger.info(`Shutting down; node ${node.id} is left for the next start`);
+        this.unfinished.skippedNodes.push(node.id);
+        continue;
+      }
+      await withLogContext({ nodeId: node.id }, async () => {
+        try {
+          const changeSet = await this.planNode(
+            node,
+            existingRules,
+            unmanagedRules,
+            graceEnabled ? previousPending : null,
+          );
+          addChangeSetToPlan(plan, node.id, changeSet);
+          if (changeSet.blockedReason) {
+            logger.error(
+              `DELETION GUARD TRIPPED for node ${node.id}: ${changeSet.blockedReason}. Skipping all changes for this node; set FORCE_DELETIONS=true to let them through.`,
+            );
+            return;
+          }
+          if (apply) {
+            plan.failedChanges.push(...(await this.applyChanges(node, changeSet)));
+          }
+        } catch (error) {
+          if (this.abortController.signal.aborted) {
+            this.unfinished.skippedNodes.push(node.id);
+          }
+          plan.failedNodes.push({ nodeId: node.id, error: (error as Error).message });
+          logger.error(`Node ${node.id} failed`, { error: (error as Error).message });
+        }
+      });
+    }
+
+    if (apply && graceEnabled) {
+      await this.savePendingDeletions(plan, previousPending);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Persists the rules still waiting for deletion. Nodes that failed, were
+   * skipped by a shutdown or held back by the deletion guard, and rules whose
+   * deletion failed, keep their previous entries, so a panel outage, a restart,
+   * a tripped guard or a rejected delete does not reset their grace period.
+   */
+  private async savePendingDeletions(
+    plan: SyncPlan,
+    previous: Map<string, PendingDeletion>,
+  ): Promise<void> {
+    const unplannedNodes = new Set([
+      ...plan.failedNodes.map(({ nodeId }) => nodeId),
+      ...this.unfinished.skippedNodes,
+      ...plan.blockedNodes.map(({ nodeId }) => nodeId),
+    ]);
+    const failedDeletions = new Set(
+      plan.failedChanges.filter(({ action }) => action === 'delete').map(({ ruleId }) => ruleId),
+    );
+    const next = new Map<string, PendingDeletion>();
+    for (const entry of previous.values()) {
+      if (unplannedNodes.has(entry.nodeId) || failedDeletions.has(entry.ruleId)) {
+        next.set(entry.ruleId, entry);
+      }
+    }
+    plan.pendingDeletions.forEach((entry) => next.set(entry.ruleId, entry));
+    if (JSON.stringify([...next]) === JSON.stringify([...previous])) {
+      return;
+    }
     try {
-      const [allocations, existingRules] = await Promise.all([
-        this.pterodactylClient.listAllocations(this.config.pterodactyl.nodeId),
-        this.udmClient.listPortForwards(),
-      ]);
-
-      logDebug('[sync] Data fetched', {
-        allocationCount: allocations.length,
-        ruleCount: existingRules.length,
+      await this.pendingDeletions.save(next);
+    } catch (error) {
+      logger.error('Unable to save pending deletions', { error: (error as Error).message });
+    }
+  }
+
+  private async planNode(
+    node: SyncNode,
+    existingRules: PortForwardRule[],
+    unmanagedRules: PortForwardRule[],
+    pendingDeletions: Map<string, PendingDeletion> | null,
+  ): Promise<ChangeSet> {
+    const nodeAllocations = await this.trackClient('pterodactyl', () =>
+      this.pterodactylClient.listAllocations(node.id, this.abortController.signal),
+    );
+    // Unassigned allocations are dropped here, so their rules are deleted like
+    // those of allocations that vanished from the panel.
+    const allocations = this.config.sync.onlyAssignedAllocations
+      ? nodeAllocations.filter((allocation) => allocation.assigned)
+      : nodeAllocations;
+    if (allocations.length !== nodeAllocations.length) {
+      logger.debug('Ignoring unassigned allocations', {
+        nodeId: node.id,
+        unassigned: nodeAllocations.length - allocations.length,
       });
+    }
 
-      const relevantRules = this.extractRelevantRules(existingRules);
-      const desiredAllocations = new Map<number, Allocation>();
-      allocations.forEach((allocation) => desiredAllocations.set(allocation.id, allocation));
+    const { managed: relevantRules, malformed } = this.extractRelevantRules(existingRules, node);
+    const managedRuleCount = [...relevantRules.values()].reduce(
+      (total, group) => total + group.length,
+      0,
+    );
+    const desiredAllocations = new Map<number, Allocation>();
+    allocations.forEach((allocation) => desiredAllocations.set(allocation.id, allocation));
 
-      logDebug('[sync] Relevant objects', {
-        managedRuleCount: relevantRules.size,
-        desiredAllocations: desiredAllocations.size,
+    logger.debug('Relevant objects', {
+      nodeId: node.id,
+      managedRuleCount,
+      desiredAllocations: desiredAllocations.size,
+    });
+
+    const inactiveServers = await this.resolveInactiveServers(allocations);
+    const changeSet = this.buildChangeSet(
+      node,
+      desiredAllocations,
+      relevantRules,
+      inactiveServers,
+      unmanagedRules,
+    );
+    changeSet.cleanup.push(...this.planMalformedCleanup(malformed));
+    this.holdBackConflicts(node, changeSet, existingRules, relevantRules);
+    if (pendingDeletions) {
+      this.applyDeletionGrace(node, changeSet, pendingDeletions, desiredAllocations);
+    }
+    this.applyDeletionGuard(
+      node,
+      changeSet,
+      allocations.length,
+      managedRuleCount + malformed.length,
+    );
+
+    const nodeLabel = String(node.id);
+    metrics.allocations.set({ node: nodeLabel }, allocations.length);
+    metrics.managedRules.set({ node: nodeLabel }, managedRuleCount);
+    metrics.pendingChanges.set({ node: nodeLabel, action: 'create' }, changeSet.toCreate.length);
+    metrics.pendingChanges.set({ node: nodeLabel, action: 'update' }, changeSet.toUpdate.length);
+    metrics.pendingChanges.set({ node: nodeLabel, action: 'delete' }, changeSet.toDelete.length);
+    metrics.portConflicts.set({ node: nodeLabel }, changeSet.conflicts.length);
+    const missingTargets = changeSet.skipped.filter(({ cause }) => cause === 'missing-target');
+    if (missingTargets.length > 0) {
+      metrics.skippedAllocations.inc({ node: nodeLabel }, missingTargets.length);
+    }
+
+    return changeSet;
+  }
+
+  /**
+   * Finds the servers whose forwards stay on the router but disabled: suspended
+   * servers and, when a Client API key is configured, servers that are offline.
+   */
+  private async resolveInactiveServers(allocations: Allocation[]): Promise<Map<number, string>> {
+    const servers = new Map<number, AllocationServer>();
+    allocations.forEach(({ server }) => server && servers.set(server.id, server));
+
+    const inactive = new Map<number, string>();
+    for (const server of servers.values()) {
+      if (server.suspended) {
+        inactive.set(server.id, 'suspended');
+        continue;
+      }
+      if (!this.pterodactylClient.supportsPowerState) {
+        continue;
+      }
+      try {
+        const state = await this.trackClient('pterodactyl', () =>
+          this.pterodactylClient.getServerPowerState(
+            server.identifier,
+            this.abortController.signal,
+          ),
+        );
+        if (state === 'offline') {
+          inactive.set(server.id, 'offline');
+        }
+      } catch (error) {
+        logger.warn(
+          `Unable to read power state of server '${server.name}'; leaving its forwards enabled`,
+          { serverId: server.id, error: (error as Error).message },
+        );
+      }
+    }
+    return inactive;
+  }
+
+  /**
+   * Drops creations and updates that would claim a WAN port another rule on
+   * the router (unmanaged, or owned by another node) already forwards, since
+   * UniFi's behaviour with overlapping forwards is undefined.
+   */
+  private holdBackConflicts(
+    node: SyncNode,
+    changeSet: ChangeSet,
+    existingRules: PortForwardRule[],
+    relevantRules: Map<number, PortForwardRule[]>,
+  ): void {
+    const owned = new Set([
+      ...[...relevantRules.values()].flat(),
+      ...changeSet.toUpdate.map(({ rule }) => rule),
+    ]);
+    const otherRules = existingRules.filter((rule) => !owned.has(rule));
+    const isClear = (allocationId: number, input: PortForwardRequest): boolean => {
+      const rule = input.enabled ? findConflictingRule(input, otherRules) : null;
+      if (!rule) {
+        return true;
+      }
+      const message = describeConflict(input, rule);
+      logger.warn(`Port conflict, not forwarding allocation ${allocationId}: ${message}`, {
+        allocationId,
+        ruleId: rule.id,
+      });
+      changeSet.conflicts.push({
+        nodeId: node.id,
+        allocationId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message,
       });
+      return false;
+    };
 
-      await this.reconcileRules(desiredAllocations, relevantRules);
+    changeSet.toCreate = changeSet.toCreate.filter(({ allocation, input }) =>
+      isClear(allocation.id, input),
+    );
+    changeSet.toUpdate = changeSet.toUpdate.filter(({ allocationId, input }) =>
+      isClear(allocationId, input),
+    );
+  }
 
-      console.log('[sync] Cycle completed');
-    } finally {
-      this.syncing = false;
+  /**
+   * Keeps rules of missing allocations until the grace period has elapsed, so
+   * an allocation that vanishes for a single poll does not lose its forward.
+   * Rules whose allocation still exists, such as those folded into a merged
+   * range, and rules overlapping a forward about to be written are deleted
+   * right away.
+   */
+  private applyDeletionGrace(
+    node: SyncNode,
+    changeSet: ChangeSet,
+    previous: Map<string, PendingDeletion>,
+    allocations: Map<number, Allocation>,
+  ): void {
+    const { deletionGrace } = this.config.sync;
+    const now = new Date();
+    const written = [...changeSet.toCreate, ...changeSet.toUpdate].map(({ input }) => input);
+    changeSet.toDelete = changeSet.toDelete.filter(({ allocationId, rule }) => {
+      if (
+        allocations.has(allocationId) ||
+        written.some((input) => input.enabled && findConflictingRule(input, [rule]))
+      ) {
+        return true;
+      }
+      const known = previous.get(rule.id);
+      const pending: PendingDeletion = {
+        nodeId: node.id,
+        allocationId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        missingSince: known?.missingSince ?? now.toISOString(),
+        missingCycles: (known?.missingCycles ?? 0) + 1,
+      };
+      if (hasGracePeriodElapsed(deletionGrace, pending, now)) {
+        return true;
+      }
+
+      logger.info(
+        `Allocation ${allocationId} is missing; keeping rule '${rule.name}' until the deletion grace period has elapsed`,
+        {
+          ruleId: rule.id,
+          missingCycles: pending.missingCycles,
+          missingSince: pending.missingSince,
+        },
+      );
+      changeSet.pendingDeletions.push(pending);
+      const input =
+        deletionGrace.disableRules && rule.enabled ? this.buildDisabledRequest(rule) : null;
+      if (input) {
+        changeSet.toUpdate.push({
+          allocationId,
+          rule,
+          input,
+          changes: this.diffRuleWithName(rule, input),
+        });
+      }
+      return false;
+    });
+  }
+
+  private applyDeletionGuard(
+    node: SyncNode,
+    changeSet: ChangeSet,
+    allocationCount: number,
+    managedRuleCount: number,
+  ): void {
+    const { deletionGuard } = this.config.sync;
+    // Duplicate and malformed rules removed by cleanup are deletions too.
+    const deletionCount =
+      changeSet.toDelete.length +
+      changeSet.cleanup.filter(({ action }) => action === 'delete').length;
+    const reason = evaluateDeletionGuard(deletionGuard, {
+      allocationCount,
+      managedRuleCount,
+      deletionCount,
+    });
+    if (!reason) {
+      return;
     }
+    if (deletionGuard.override) {
+      logger.warn(
+        `FORCE_DELETIONS set; allowing ${deletionCount} deletion(s) on node ${node.id} despite: ${reason}`,
+      );
+      return;
+    }
+    changeSet.blockedReason = reason;
   }
 
-  private extractRelevantRules(rules: PortForwardRule[]): Map<number, PortForwardRule> {
-    const relevant = new Map<number, PortForwardRule>();
-    const { namePrefix } = this.config.udm;
+  private async resolveNodes(): Promise<SyncNode[]> {
+    const { nodes: selection } = this.config.pterodactyl;
+    const nodeIds =
+      selection === 'all'
+        ? (
+            await this.trackClient('pterodactyl', () =>
+              this.pterodactylClient.listNodes(this.abortController.signal),
+            )
+          ).map((node) => node.id)
+        : selection;
+    // A single explicitly selected node keeps the historic, unscoped prefix.
+    const scopePrefixes = selection === 'all' || nodeIds.length > 1;
+
+    const nodes = nodeIds.map((id): SyncNode => {
+      const settings = this.config.pterodactyl.nodeSettings[String(id)] ?? {};
+      return {
+        id,
+        namePrefix:
+          settings.namePrefix ??
+          (scopePrefixes ? `${this.config.udm.namePrefix}${id}-` : this.config.udm.namePrefix),
+        defaultTargetIp: settings.targetIpDefault ?? this.config.udm.defaultTargetIp,
+        targetIpMap: {
+          ...this.config.udm.targetIpMap,
+          ...settings.targetIpMap,
+        },
+      };
+    });
+
+    for (const node of nodes) {
+      const clash = nodes.find(
+        (other) => other !== node && other.namePrefix.startsWith(node.namePrefix),
+      );
+      if (clash) {
+        throw new Error(
+          `Name prefix '${node.namePrefix}' of node ${node.id} overlaps with '${clash.namePrefix}' of node ${clash.id}`,
+        );
+      }
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Groups the node's managed rules by allocation. More than one rule per
+   * allocation means duplicates; rules with the prefix but no parseable
+   * allocation id are returned as malformed.
+   */
+  private extractRelevantRules(
+    rules: PortForwardRule[],
+    node: SyncNode,
+  ): { managed: Map<number, PortForwardRule[]>; malformed: PortForwardRule[] } {
+    const managed = new Map<number, PortForwardRule[]>();
+    const malformed: PortForwardRule[] = [];
 
     for (const rule of rules) {
-      if (!rule.name.startsWith(namePrefix)) {
+      if (!rule.name.startsWith(node.namePrefix)) {
         continue;
       }
-      const maybeId = this.parseAllocationId(rule.name);
+      const maybeId = this.parseAllocationId(
+        rule.name,
+        node.namePrefix,
+        rule.externalPort.includes('-'),
+      );
       if (maybeId === null) {
-        console.warn(
-          `[sync] Found managed prefix but could not parse allocation id from rule '${rule.name}'`,
+        logger.warn(
+          `Found managed prefix but could not parse allocation id from rule '${rule.name}'`,
+          { ruleId: rule.id, policy: this.config.sync.malformedRulePolicy },
         );
+        malformed.push(rule);
+        continue;
+      }
+      managed.set(maybeId, [...(managed.get(maybeId) ?? []), rule]);
+    }
+
+    return { managed, malformed };
+  }
+
+  /**
+   * Applies MALFORMED_RULE_POLICY. Rules that are already disabled count as
+   * quarantined, and rules whose ports cannot be written back are only warned about.
+   */
+  private planMalformedCleanup(rules: PortForwardRule[]): ChangeSet['cleanup'] {
+    const policy = this.config.sync.malformedRulePolicy;
+    const cleanup: ChangeSet['cleanup'] = [];
+    for (const rule of rules) {
+      if (policy !== 'disable') {
+        cleanup.push({ allocationId: null, rule, issue: 'malformed', action: policy });
+        continue;
+      }
+      if (!rule.enabled) {
         continue;
       }
-      relevant.set(maybeId, rule);
+      const input = this.buildDisabledRequest(rule);
+      if (!input) {
+        logger.warn(`Cannot disable rule '${rule.name}': unsupported port value`, {
+          ruleId: rule.id,
+          externalPort: rule.externalPort,
+        });
+      }
+      cleanup.push({
+        allocationId: null,
+        rule,
+        issue: 'malformed',
+        action: input ? 'disable' : 'warn',
+        input: input ?? undefined,
+      });
+    }
+    return cleanup;
+  }
+
+  private buildDisabledRequest(rule: PortForwardRule): PortForwardRequest | null {
+    const external = parsePortSpans(rule.externalPort);
+    const internal = parsePortSpans(rule.internalPort);
+    if (external?.length !== 1 || internal?.length !== 1) {
+      return null;
     }
+    const [[externalPort, externalPortEnd]] = external;
+    const [[internalPort, internalPortEnd]] = internal;
+    return {
+      name: rule.name,
+      enabled: false,
+      externalPort,
+      internalPort,
+      ...(externalPortEnd !== externalPort && { externalPortEnd }),
+      ...(internalPortEnd !== internalPort && { internalPortEnd }),
+      internalIp: rule.internalIp,
+      protocol: rule.protocol,
+      source: rule.source,
+      destination: rule.destination,
+      wanIp: rule.wanIp ?? 'any',
+    };
+  }
 
-    return relevant;
+  /**
+   * Picks the rule to keep among duplicates: the one closest to the desired
+   * forward, preferring enabled rules and then the first one listed.
+   */
+  private pickBestRule(rules: PortForwardRule[], target?: PortForwardRequest): PortForwardRule {
+    const score = (rule: PortForwardRule) =>
+      (target ? this.diffRuleWithName(rule, target).length * 2 : 0) + (rule.enabled ? 0 : 1);
+    return rules.reduce((best, rule) => (score(rule) < score(best) ? rule : best));
   }
 
-  private async reconcileRules(
+  private buildChangeSet(
+    node: SyncNode,
     allocations: Map<number, Allocation>,
-    existingRules: Map<number, PortForwardRule>,
-  ): Promise<void> {
-    const toDelete: PortForwardRule[] = [];
-    const toCreate: { allocation: Allocation; input: PortForwardRequest }[] = [];
-    const toUpdate: { rule: PortForwardRule; input: PortForwardRequest }[] = [];
-
-    // Determine deletions and updates
-    for (const [allocationId, rule] of existingRules) {
-      const allocation = allocations.get(allocationId);
-      if (!allocation) {
-        toDelete.push(rule);
+    existingRules: Map<number, PortForwardRule[]>,
+    inactiveServers = new Map<number, string>(),
+    unmanagedRules: PortForwardRule[] = [],
+  ): ChangeSet {
+    const changeSet: ChangeSet = {
+      toCreate: [],
+      toUpdate: [],
+      toDelete: [],
+      skipped: [],
+      conflicts: [],
+      cleanup: [],
+      pendingDeletions: [],
+    };
+
+    // Resolve the desired forward of every allocation, keyed like the rules.
+    const resolved = new Map<number, DesiredForward>();
+    const untouchable = new Set<number>();
+    for (const allocation of allocations.values()) {
+      const { directives, warnings } = parseAllocationDirectives(allocation.notes);
+      warnings.forEach((warning) =>
+        logger.warn(`Allocation ${allocation.id} notes: ${warning}`, {
+          allocationId: allocation.id,
+        }),
+      );
+      if (directives.skip) {
+        logger.debug('Allocation excluded by notes directive', { allocationId: allocation.id });
+        changeSet.skipped.push({
+          nodeId: node.id,
+          allocationId: allocation.id,
+          cause: 'excluded',
+          reason: "excluded by 'udm: skip' in allocation notes",
+        });
         continue;
       }
 
-      const targetConfig = this.buildPortForwardRequest(allocation);
-      if (!targetConfig) {
-        console.warn(
-          `[sync] Allocation ${allocation.id} missing target IP mapping; skipping update`,
+      const inactive = allocation.server && inactiveServers.get(allocation.server.id);
+      if (inactive) {
+        logger.debug(`Server is ${inactive}; disabling its forward`, {
+          allocationId: allocation.id,
+          serverId: allocation.server?.id,
+        });
+      }
+      const targetConfig = this.buildPortForwardRequest(
+        allocation,
+        node,
+        inactive ? { ...directives, enabled: false } : directives,
+      );
+      if (targetConfig) {
+        resolved.set(allocation.id, { allocation, input: targetConfig });
+        continue;
+      }
+      const rule = existingRules.get(allocation.id)?.[0];
+      if (rule) {
+        logger.warn(`Allocation ${allocation.id} missing target IP mapping; skipping update`, {
+          allocationId: allocation.id,
+          ruleId: rule.id,
+        });
+        changeSet.skipped.push({
+          nodeId: node.id,
+          allocationId: allocation.id,
+          cause: 'missing-target',
+          reason: `missing target IP mapping; rule '${rule.name}' left unchanged`,
+        });
+        untouchable.add(allocation.id);
+      } else {
+        logger.warn(`Allocation ${allocation.id} missing target IP mapping; skipping creation`, {
+          allocationId: allocation.id,
+        });
+        changeSet.skipped.push({
+          nodeId: node.id,
+          allocationId: allocation.id,
+          cause: 'missing-target',
+          reason: 'missing target IP mapping',
+        });
+      }
+    }
+
+    const desired = this.config.sync.mergePortRanges
+      ? this.mergePortRanges(resolved, node)
+      : resolved;
+
+    // Determine deletions and updates, keeping a single rule per allocation
+    for (const [allocationId, group] of existingRules) {
+      const target = desired.get(allocationId);
+      const rule = this.pickBestRule(group, target?.input);
+      for (const duplicate of group.filter((candidate) => candidate !== rule)) {
+        logger.warn(
+          `Rule '${duplicate.name}' duplicates '${rule.name}' for allocation ${allocationId}; removing it`,
+          { allocationId, ruleId: duplicate.id },
         );
+        changeSet.cleanup.push({
+          allocationId,
+          rule: duplicate,
+          issue: 'duplicate',
+          action: 'delete',
+        });
+      }
+      if (!target) {
+        if (!untouchable.has(allocationId)) {
+          changeSet.toDelete.push({ allocationId, rule });
+        }
         continue;
       }
 
-      if (this.isRuleOutOfSync(rule, targetConfig)) {
-        toUpdate.push({ rule, input: targetConfig });
+      const changes = this.diffRuleWithName(rule, target.input);
+      if (changes.length > 0) {
+        changeSet.toUpdate.push({ allocationId, rule, input: target.input, changes });
       }
 
-      allocations.delete(allocationId);
+      desired.delete(allocationId);
     }
 
-    // Remaining allocations need creation
-    for (const allocation of allocations.values()) {
-      const targetConfig = this.buildPortForwardRequest(allocation);
-      if (!targetConfig) {
-        console.warn(
-          `[sync] Allocation ${allocation.id} missing target IP mapping; skipping creation`,
-        );
+    // Remaining forwards need creation, unless an unmanaged rule can be taken over
+    for (const { allocation, input } of desired.values()) {
+      const adoption = this.findAdoptableRule(allocation.id, input, unmanagedRules);
+      if (!adoption) {
+        changeSet.toCreate.push({ allocation, input });
         continue;
       }
-      toCreate.push({ allocation, input: targetConfig });
+      const { rule, reason } = adoption;
+      unmanagedRules.splice(unmanagedRules.indexOf(rule), 1);
+      logger.info(`Adopting rule '${rule.name}' for allocation ${allocation.id} (${reason})`, {
+        allocationId: allocation.id,
+        ruleId: rule.id,
+      });
+      changeSet.toUpdate.push({
+        allocationId: allocation.id,
+        rule,
+        input,
+        changes: this.diffRuleWithName(rule, input),
+      });
     }
 
-    await this.applyChanges({ toCreate, toUpdate, toDelete });
-    logDebug('[sync] Change set summary', {
-      toCreate: toCreate.length,
-      toUpdate: toUpdate.length,
-      toDelete: toDelete.length,
+    logger.debug('Change set summary', {
+      nodeId: node.id,
+      toCreate: changeSet.toCreate.length,
+      toUpdate: changeSet.toUpdate.length,
+      toDelete: changeSet.toDelete.length,
+      skipped: changeSet.skipped.length,
     });
+
+    return changeSet;
   }
 
-  private async applyChanges(changeSet: {
-    toCreate: { allocation: Allocation; input: PortForwardRequest }[];
-    toUpdate: { rule: PortForwardRule; input: PortForwardRequest }[];
-    toDelete: PortForwardRule[];
-  }): Promise<void> {
-    for (const rule of changeSet.toDelete) {
-      console.log(`[sync] Removing port forward '${rule.name}' (${rule.id})`);
-      await this.udmClient.deletePortForward(rule.id);
+  /**
+   * Applies a node's changes in three phases, deletes, then updates, then
+   * creates, so a port freed by a delete or update is free before anything
+   * reuses it. Within a phase up to APPLY_CONCURRENCY changes run at once. A
+   * failing change is recorded and backed off on its own, so it never keeps
+   * the remaining changes from running.
+   */
+  private async applyChanges(node: SyncNode, changeSet: ChangeSet): Promise<FailedChange[]> {
+    const { signal } = this.abortController;
+    const deletions: RouterChange[] = [];
+    const updates: RouterChange[] = [];
+    const creations: RouterChange[] = [];
+
+    for (const { allocationId, rule, issue, action, input } of changeSet.cleanup) {
+      if (action === 'delete') {
+        deletions.push({
+          message: `Removing ${issue} port forward '${rule.name}'`,
+          entry: {
+            action: 'delete',
+            nodeId: node.id,
+            allocationId,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            before: rule.raw,
+            after: null,
+          },
+          applied: 'deleted',
+          operation: () => this.router.deletePortForward(rule.id, signal),
+        });
+      } else if (action === 'disable' && input) {
+        updates.push({
+          message: `Disabling ${issue} port forward '${rule.name}'`,
+          entry: {
+            action: 'update',
+            nodeId: node.id,
+            allocationId,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            before: rule.raw,
+            after: this.router.buildPayload(input, rule),
+          },
+          applied: 'updated',
+          operation: () => this.router.updatePortForward(rule, input, signal),
+        });
+      }
     }
 
-    for (const { rule, input } of changeSet.toUpdate) {
-      console.log(
-        `[sync] Updating port forward '${rule.name}' for allocation ${this.extractId(rule.name)}`,
-      );
-      await this.udmClient.updatePortForward(rule, input);
+    for (const { allocationId, rule } of changeSet.toDelete) {
+      deletions.push({
+        message: `Removing port forward '${rule.name}'`,
+        entry: {
+          action: 'delete',
+          nodeId: node.id,
+          allocationId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          before: rule.raw,
+          after: null,
+        },
+        applied: 'deleted',
+        operation: () => this.router.deletePortForward(rule.id, signal),
+      });
+    }
+
+    for (const { allocationId, rule, input } of changeSet.toUpdate) {
+      updates.push({
+        message: `Updating port forward '${rule.name}'`,
+        entry: {
+          action: 'update',
+          nodeId: node.id,
+          allocationId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          before: rule.raw,
+          after: this.router.buildPayload(input, rule),
+        },
+        applied: 'updated',
+        operation: () => this.router.updatePortForward(rule, input, signal),
+      });
     }
 
     for (const { allocation, input } of changeSet.toCreate) {
-      console.log(`[sync] Creating port forward for allocation ${allocation.id}`);
-      await this.udmClient.createPortForward(input);
+      creations.push({
+        message: `Creating port forward '${input.name}'`,
+        entry: {
+          action: 'create',
+          nodeId: node.id,
+          allocationId: allocation.id,
+          ruleId: null,
+          ruleName: input.name,
+          before: null,
+          after: this.router.buildPayload(input),
+        },
+        applied: 'created',
+        operation: () => this.router.createPortForward(input, signal),
+      });
+    }
+
+    const total = deletions.length + updates.length + creations.length;
+    // Long runs report progress about every tenth of the way.
+    const progressStep = total >= progressThreshold ? Math.ceil(total / 10) : 0;
+    const failures: FailedChange[] = [];
+    let done = 0;
+    this.status.addPlannedChanges(total);
+
+    for (const phase of [deletions, updates, creations].filter((changes) => changes.length > 0)) {
+      await runWithConcurrency(phase, this.config.sync.applyConcurrency, async (change) => {
+        const failure = await this.applyChange(change);
+        if (failure) {
+          metrics.failedChanges.inc({ node: String(node.id), action: failure.action });
+          failures.push(failure);
+        }
+        done += 1;
+        this.status.recordProgress();
+        if (progressStep > 0 && (done % progressStep === 0 || done === total)) {
+          logger.info(`Applied ${done}/${total} changes on node ${node.id}`, {
+            failed: failures.length,
+          });
+        }
+      });
+    }
+
+    this.changeBackoff.finishNode(node.id);
+    return failures;
+  }
+
+  /**
+   * Applies a single change unless it is backed off, returning the failure to
+   * report for it, if any.
+   */
+  private async applyChange({
+    message,
+    entry,
+    applied,
+    operation,
+  }: RouterChange): Promise<FailedChange | null> {
+    const context = { allocationId: entry.allocationId, ruleId: entry.ruleId ?? undefined };
+    const change = {
+      nodeId: entry.nodeId,
+      action: entry.action,
+      allocationId: entry.allocationId,
+      ruleId: entry.ruleId,
+      ruleName: entry.ruleName,
+    };
+    const backedOff = this.changeBackoff.shouldSkip(entry);
+    if (backedOff) {
+      logger.warn(`Skipping ${entry.action} of '${entry.ruleName}' after repeated failures`, {
+        ...context,
+        failures: backedOff.failures,
+      });
+      return { ...change, ...backedOff, backedOff: true };
+    }
+
+    const { signal } = this.abortController;
+    if (!signal.aborted) {
+      // An abort ends the wait for a rate limit slot; the check below reports it.
+      await this.rateLimiter?.acquire(signal).catch(() => undefined);
+    }
+    if (signal.aborted) {
+      this.unfinished.cancelledChanges.push(change);
+      return null;
+    }
+    logger.info(message, context);
+    try {
+      await this.applyAudited(entry, operation);
+    } catch (error) {
+      if (signal.aborted) {
+        this.unfinished.cancelledChanges.push(change);
+        return null;
+      }
+      const reason = (error as Error).message;
+      const count = this.changeBackoff.recordFailure(entry, reason);
+      logger.error(`Failed to ${entry.action} port forward '${entry.ruleName}'`, {
+        ...context,
+        failures: count,
+        error: reason,
+      });
+      return { ...change, error: reason, failures: count, backedOff: false };
+    }
+    this.changeBackoff.recordSuccess(entry);
+    this.status.recordApplied(applied);
+    return null;
+  }
+
+  /**
+   * Runs a router write and records its outcome in the audit journal, if enabled.
+   * A journal that cannot be written is logged but never fails the change.
+   */
+  private async applyAudited(
+    entry: Omit<AuditEntry, 'time' | 'outcome' | 'error'>,
+    operation: () => Promise<PortForwardRule | void>,
+  ): Promise<void> {
+    let failure: Error | null = null;
+    let rule: PortForwardRule | null = null;
+    try {
+      rule = (await this.trackClient('router', operation)) || null;
+    } catch (error) {
+      failure = error as Error;
+    }
+
+    if (this.journal) {
+      try {
+        await this.journal.record({
+          ...entry,
+          // A create only learns the id of its rule from the router.
+          ruleId: entry.ruleId ?? rule?.id ?? null,
+          outcome: failure ? 'failure' : 'success',
+          error: failure?.message ?? null,
+        });
+      } catch (error) {
+        logger.error('Failed to write audit journal entry', {
+          allocationId: entry.allocationId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  private async trackClient<T>(client: ClientName, operation: () => Promise<T>): Promise<T> {
+    try {
+      const result = await operation();
+      this.status.recordClientSuccess(client);
+      return result;
+    } catch (error) {
+      this.status.recordClientError(client, error as Error);
+      throw error;
     }
   }
 
-  private buildPortForwardRequest(allocation: Allocation): PortForwardRequest | null {
-    const targetIp = this.resolveTargetIp(allocation);
+  /**
+   * Folds forwards of consecutive ports that share every other setting into
+   * range forwards. Each range is keyed by the allocation on its first port,
+   * so a range that grows or shrinks at its end is updated in place.
+   */
+  private mergePortRanges(
+    forwards: Map<number, DesiredForward>,
+    node: SyncNode,
+  ): Map<number, DesiredForward> {
+    const sorted = [...forwards.values()].sort(
+      (a, b) => a.input.externalPort - b.input.externalPort,
+    );
+    const groups: DesiredForward[][] = [];
+    for (const forward of sorted) {
+      const group = groups[groups.length - 1];
+      const previous = group?.[group.length - 1]?.input;
+      const { input } = forward;
+      const contiguous =
+        previous !== undefined &&
+        input.externalPort === previous.externalPort + 1 &&
+        input.internalPort === previous.internalPort + 1 &&
+        input.internalIp === previous.internalIp &&
+        input.protocol === previous.protocol &&
+        input.enabled === previous.enabled &&
+        input.source === previous.source &&
+        input.destination === previous.destination &&
+        input.wanIp === previous.wanIp;
+      if (contiguous) {
+        group.push(forward);
+      } else {
+        groups.push([forward]);
+      }
+    }
+
+    const merged = new Map<number, DesiredForward>();
+    for (const group of groups) {
+      const first = group[0];
+      const last = group[group.length - 1];
+      if (group.length === 1) {
+        merged.set(first.allocation.id, first);
+        continue;
+      }
+      merged.set(first.allocation.id, {
+        allocation: first.allocation,
+        input: {
+          ...first.input,
+          name: this.buildRuleName(first.allocation, node, last.allocation.id),
+          externalPortEnd: last.input.externalPort,
+          internalPortEnd: last.input.internalPort,
+        },
+      });
+    }
+    logger.debug('Merged port ranges', {
+      nodeId: node.id,
+      forwards: forwards.size,
+      rules: merged.size,
+    });
+    return merged;
+  }
+
+  private buildPortForwardRequest(
+    allocation: Allocation,
+    node: SyncNode,
+    directives: AllocationDirectives = { skip: false },
+  ): PortForwardRequest | null {
+    const targetIp = directives.targetIp ?? this.resolveTargetIp(allocation, node);
     if (!targetIp) {
       return null;
     }
@@ -186,29 +1307,29 @@ export class SyncService {
     const externalPort = allocation.port;
     const internalPort = allocation.port;
 
-    logDebug('[sync] Building port forward request', {
+    logger.debug('Building port forward request', {
       allocationId: allocation.id,
       externalPort,
       targetIp,
     });
 
     return {
-      name: this.buildRuleName(allocation.id),
-      enabled: true,
+      name: this.buildRuleName(allocation, node),
+      enabled: directives.enabled ?? true,
       externalPort,
       internalPort,
       internalIp: targetIp,
-      protocol: this.protocol,
-      source: this.config.udm.source,
+      protocol: directives.protocol ?? this.protocol,
+      source: directives.source ?? this.config.udm.source,
       destination: this.config.udm.destination,
       wanIp: this.config.udm.wanIp,
     };
   }
 
-  private resolveTargetIp(allocation: Allocation): string | null {
-    const { targetIpMap, defaultTargetIp } = this.config.udm;
+  private resolveTargetIp(allocation: Allocation, node: SyncNode): string | null {
+    const { targetIpMap, defaultTargetIp } = node;
     if (targetIpMap[allocation.ip]) {
-      logDebug('[sync] Resolved target via IP map', {
+      logger.debug('Resolved target via IP map', {
         allocationId: allocation.id,
         externalIp: allocation.ip,
         target: targetIpMap[allocation.ip],
@@ -216,7 +1337,7 @@ export class SyncService {
       return targetIpMap[allocation.ip];
     }
     if (allocation.ipAlias && targetIpMap[allocation.ipAlias]) {
-      logDebug('[sync] Resolved target via IP alias', {
+      logger.debug('Resolved target via IP alias', {
         allocationId: allocation.id,
         externalIp: allocation.ipAlias,
         target: targetIpMap[allocation.ipAlias],
@@ -224,7 +1345,7 @@ export class SyncService {
       return targetIpMap[allocation.ipAlias];
     }
     if (defaultTargetIp) {
-      logDebug('[sync] Using default target IP', {
+      logger.debug('Using default target IP', {
         allocationId: allocation.id,
         target: defaultTargetIp,
       });
@@ -232,12 +1353,37 @@ export class SyncService {
     return defaultTargetIp ?? null;
   }
 
-  private buildRuleName(allocationId: number): string {
-    return `${this.config.udm.namePrefix}${allocationId}`;
+  /**
+   * Renders PORT_FORWARD_NAME_TEMPLATE for an allocation. A range forward uses
+   * `first-last` as its allocation id.
+   */
+  private buildRuleName(allocation: Allocation, node: SyncNode, lastAllocationId?: number): string {
+    const values: Record<string, string> = {
+      prefix: node.namePrefix,
+      allocationId:
+        lastAllocationId === undefined
+          ? String(allocation.id)
+          : `${allocation.id}-${lastAllocationId}`,
+      serverName: allocation.server?.name ?? '',
+      serverIdentifier: allocation.server?.identifier ?? '',
+      node: String(node.id),
+      ip: allocation.ip,
+      port: String(allocation.port),
+    };
+    return this.config.udm.nameTemplate
+      .replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '')
+      .replace(/\s+/g, ' ')
+      .trim();
   }
 
-  private parseAllocationId(name: string): number | null {
-    const pattern = new RegExp(`^${this.escapeRegExp(this.config.udm.namePrefix)}(\\d+)$`);
+  /**
+   * Returns the allocation a managed rule is keyed by: the allocation itself,
+   * or the allocation on the first port of a range rule. Whatever a name
+   * template appends after the id is ignored.
+   */
+  private parseAllocationId(name: string, namePrefix: string, isRange = false): number | null {
+    const suffix = isRange ? '(\\d+)-\\d+' : '(\\d+)';
+    const pattern = new RegExp(`^${this.escapeRegExp(namePrefix)}${suffix}(?:$|[^\\w-])`);
     const match = pattern.exec(name);
     if (!match) {
       return null;
@@ -246,44 +1392,78 @@ export class SyncService {
     return Number.isNaN(value) ? null : value;
   }
 
-  private extractId(name: string): string {
-    return name.replace(this.config.udm.namePrefix, '');
-  }
-
-  private isRuleOutOfSync(rule: PortForwardRule, target: PortForwardRequest): boolean {
-    if (rule.internalIp !== target.internalIp) {
-      return true;
-    }
-
-    if (rule.internalPort !== String(target.internalPort)) {
-      return true;
-    }
-
-    if (rule.externalPort !== String(target.externalPort)) {
-      return true;
-    }
-
-    if (!rule.enabled && target.enabled) {
-      return true;
+  /**
+   * Looks for an unmanaged rule that already serves the allocation: one named
+   * with a prefix listed in MIGRATE_NAME_PREFIXES, or, with
+   * ADOPT_UNMANAGED_RULES, one forwarding the same ports to the same target.
+   */
+  private findAdoptableRule(
+    allocationId: number,
+    input: PortForwardRequest,
+    candidates: PortForwardRule[],
+  ): { rule: PortForwardRule; reason: string } | null {
+    for (const prefix of this.config.sync.migratePrefixes) {
+      const rule = candidates.find(
+        (candidate) =>
+          candidate.name.startsWith(prefix) &&
+          this.parseAllocationId(candidate.name, prefix, candidate.externalPort.includes('-')) ===
+            allocationId,
+      );
+      if (rule) {
+        return { rule, reason: `migrated from prefix '${prefix}'` };
+      }
     }
 
-    if (rule.protocol !== target.protocol) {
-      return true;
+    if (!this.config.sync.adoptUnmanagedRules) {
+      return null;
     }
+    const externalPort = formatPortRange(input.externalPort, input.externalPortEnd);
+    const internalPort = formatPortRange(input.internalPort, input.internalPortEnd);
+    const rule = candidates.find(
+      (candidate) =>
+        candidate.externalPort === externalPort &&
+        candidate.internalPort === internalPort &&
+        candidate.internalIp === input.internalIp &&
+        candidate.protocol === input.protocol,
+    );
+    return rule ? { rule, reason: 'matching port, target and protocol' } : null;
+  }
 
-    if (rule.source !== target.source) {
-      return true;
+  /** Like diffRule, but also renames the rule to the name the template produces. */
+  private diffRuleWithName(rule: PortForwardRule, target: PortForwardRequest): FieldChange[] {
+    const changes = this.diffRule(rule, target);
+    if (rule.name !== target.name) {
+      changes.unshift({ field: 'name', from: rule.name, to: target.name });
     }
+    return changes;
+  }
 
-    if (rule.destination !== target.destination) {
-      return true;
-    }
+  private diffRule(rule: PortForwardRule, target: PortForwardRequest): FieldChange[] {
+    const changes: FieldChange[] = [];
+    const compare = (field: string, current: string, desired: string) => {
+      if (current !== desired) {
+        changes.push({ field, from: current, to: desired });
+      }
+    };
 
-    if ((rule.wanIp ?? 'any') !== target.wanIp) {
-      return true;
-    }
+    compare('internalIp', rule.internalIp, target.internalIp);
+    compare(
+      'internalPort',
+      rule.internalPort,
+      formatPortRange(target.internalPort, target.internalPortEnd),
+    );
+    compare(
+      'externalPort',
+      rule.externalPort,
+      formatPortRange(target.externalPort, target.externalPortEnd),
+    );
+    compare('enabled', String(rule.enabled), String(target.enabled));
+    compare('protocol', rule.protocol, target.protocol);
+    compare('source', rule.source, target.source);
+    compare('destination', rule.destination, target.destination);
+    compare('wanIp', rule.wanIp ?? 'any', target.wanIp);
 
-    return false;
+    return changes;
   }
 
   private escapeRegExp(value: string): string {
@@ -0,0 +1,191 @@
+import { FailedChange } from './changeBackoff';
+import { PendingDeletion } from './deletionGrace';
+import { PortConflict, RuleCleanup, SyncPlan } from './plan';
+
+export type ClientName = 'router' | 'pterodactyl';
+
+export type AppliedAction = 'created' | 'updated' | 'deleted';
+
+export interface ClientStatus {
+  ready: boolean;
+  lastSuccessAt: string | null;
+  lastError: { message: string; at: string } | null;
+}
+
+export interface CycleSummary {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  result: 'success' | 'partial' | 'failed';
+  created: number;
+  updated: number;
+  deleted: number;
+  skipped: number;
+  conflicts: PortConflict[];
+  cleanup: RuleCleanup[];
+  pendingDeletions: PendingDeletion[];
+  failedNodes: number[];
+  failedChanges: FailedChange[];
+  blockedNodes: number[];
+  error: string | null;
+}
+
+export interface ApplyProgress {
+  /** Changes applied, failed or skipped so far in the running cycle. */
+  done: number;
+  total: number;
+}
+
+export interface SyncStatus {
+  startedAt: string | null;
+  dryRun: boolean;
+  syncing: boolean;
+  progress: ApplyProgress | null;
+  lastCycle: CycleSummary | null;
+  lastSuccessfulCycleAt: string | null;
+  clients: Record<ClientName, ClientStatus>;
+}
+
+const emptyClientStatus = (): ClientStatus => ({
+  ready: false,
+  lastSuccessAt: null,
+  lastError: null,
+});
+
+/**
+ * Collects what the service has been doing so the HTTP endpoints can report it
+ * without reaching into the sync loop.
+ */
+export class SyncStatusTracker {
+  private startedAt: number | null = null;
+  private lastSuccessfulCycleAt: number | null = null;
+  private lastCompletedCycleAt: number | null = null;
+  private lastCycle: CycleSummary | null = null;
+  private currentCycle: {
+    startedAt: number;
+    applied: Record<AppliedAction, number>;
+    progress: ApplyProgress;
+  } | null = null;
+
+  private readonly clients: Record<ClientName, ClientStatus> = {
+    router: emptyClientStatus(),
+    pterodactyl: emptyClientStatus(),
+  };
+
+  constructor(private readonly dryRun: boolean) {}
+
+  markStarted(): void {
+    this.startedAt = Date.now();
+  }
+
+  beginCycle(): void {
+    this.currentCycle = {
+      startedAt: Date.now(),
+      applied: { created: 0, updated: 0, deleted: 0 },
+      progress: { done: 0, total: 0 },
+    };
+  }
+
+  addPlannedChanges(count: number): void {
+    if (this.currentCycle) {
+      this.currentCycle.progress.total += count;
+    }
+  }
+
+  recordProgress(): void {
+    if (this.currentCycle) {
+      this.currentCycle.progress.done += 1;
+    }
+  }
+
+  recordApplied(action: AppliedAction): void {
+    if (this.currentCycle) {
+      this.currentCycle.applied[action] += 1;
+    }
+  }
+
+  finishCycle(plan: SyncPlan | null, error?: Error): CycleSummary | null {
+    if (!this.currentCycle) {
+      return null;
+    }
+    const finishedAt = Date.now();
+    const failedNodes = plan?.failedNodes.map(({ nodeId }) => nodeId) ?? [];
+    const failedChanges = plan?.failedChanges ?? [];
+    const result = error
+      ? 'failed'
+      : failedNodes.length > 0 || failedChanges.length > 0
+        ? 'partial'
+        : 'success';
+
+    this.lastCycle = {
+      startedAt: new Date(this.currentCycle.startedAt).toISOString(),
+      finishedAt: new Date(finishedAt).toISOString(),
+      durationMs: finishedAt - this.currentCycle.startedAt,
+      result,
+      ...this.currentCycle.applied,
+      skipped: plan?.skipped.length ?? 0,
+      conflicts: plan?.conflicts ?? [],
+      cleanup: plan?.cleanup ?? [],
+      pendingDeletions: plan?.pendingDeletions ?? [],
+      failedNodes,
+      failedChanges,
+      blockedNodes: plan?.blockedNodes.map(({ nodeId }) => nodeId) ?? [],
+      error: error?.message ?? null,
+    };
+    if (result === 'success') {
+      this.lastSuccessfulCycleAt = finishedAt;
+    }
+    // Changes the router rejects are retried or backed off by the next cycles,
+    // so only failed cycles and nodes that could not be synced count against health.
+    if (result !== 'failed' && failedNodes.length === 0) {
+      this.lastCompletedCycleAt = finishedAt;
+    }
+    this.currentCycle = null;
+    return this.lastCycle;
+  }
+
+  recordClientSuccess(client: ClientName): void {
+    const status = this.clients[client];
+    status.ready = true;
+    status.lastSuccessAt = new Date().toISOString();
+  }
+
+  recordClientError(client: ClientName, error: Error): void {
+    this.clients[client].lastError = {
+      message: error.message,
+      at: new Date().toISOString(),
+    };
+  }
+
+  isReady(): boolean {
+    return this.clients.router.ready && this.clients.pterodactyl.ready;
+  }
+
+  /**
+   * Healthy while the last cycle that synced every node (or the service start,
+   * before the first one) is no older than maxAgeMs. Failed changes do not
+   * count, since restarting would not make the router accept them.
+   */
+  isHealthy(maxAgeMs: number): boolean {
+    const reference = this.lastCompletedCycleAt ?? this.startedAt;
+    if (reference === null) {
+      return false;
+    }
+    return Date.now() - reference <= maxAgeMs;
+  }
+
+  snapshot(): SyncStatus {
+    return structuredClone({
+      startedAt: this.startedAt === null ? null : new Date(this.startedAt).toISOString(),
+      dryRun: this.dryRun,
+      syncing: this.currentCycle !== null,
+      progress: this.currentCycle?.progress ?? null,
+      lastCycle: this.lastCycle,
+      lastSuccessfulCycleAt:
+        this.lastSuccessfulCycleAt === null
+          ? null
+          : new Date(this.lastSuccessfulCycleAt).toISOString(),
+      clients: this.clients,
+    });
+  }
+}
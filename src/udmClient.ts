@@ -1,35 +1,33 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import https from 'node:https';
 import { Cookie, CookieJar } from 'tough-cookie';
-import { logDebug } from './logger';
-
-export type UdmProtocol = 'tcp' | 'udp' | 'tcp_udp';
-
-export interface PortForwardRule {
-  id: string;
-  name: string;
-  enabled: boolean;
-  externalPort: string;
-  internalPort: string;
-  internalIp: string;
-  protocol: UdmProtocol;
-  source: string;
-  destination: string;
-  wanIp?: string;
-  raw: RawPortForward;
+import { createLogger } from './logger';
+import { metrics, statusLabel } from './metrics';
+import { classifyFailure, defaultRetryOptions, RetryOptions, withRetry } from './retry';
+import {
+  formatPortRange,
+  ForwardProtocol,
+  PortForwardRequest,
+  PortForwardRule,
+  RouterDriver,
+} from './routerDriver';
+
+const logger = createLogger('udm');
+
+export type UdmControllerType = 'auto' | 'unifi-os' | 'standalone';
+
+type UdmOperation = 'list' | 'create' | 'update' | 'delete';
+
+interface ControllerLayout {
+  type: Exclude<UdmControllerType, 'auto'>;
+  loginPath: string;
+  sitePath: string;
 }
 
-export interface PortForwardRequest {
-  name: string;
-  enabled: boolean;
-  externalPort: number;
-  internalPort: number;
-  internalIp: string;
-  protocol: UdmProtocol;
-  source: string;
-  destination: string;
-  wanIp: string;
-}
+const controllerLayout = (type: ControllerLayout['type'], site: string): ControllerLayout =>
+  type === 'unifi-os'
+    ? { type, loginPath: '/api/auth/login', sitePath: `/proxy/network/api/s/${site}` }
+    : { type, loginPath: '/api/login', sitePath: `/api/s/${site}` };
 
 interface RawPortForward {
   _id: string;
@@ -50,7 +48,7 @@ interface PortForwardResponse {
   data?: RawPortForward | RawPortForward[];
 }
 
-interface PortForwardPayload {
+export interface PortForwardPayload {
   _id?: string;
   name: string;
   enabled: boolean;
@@ -65,16 +63,18 @@ interface PortForwardPayload {
   [key: string]: unknown;
 }
 
-export class UdmClient {
+export class UdmClient implements RouterDriver {
   private readonly http: AxiosInstance;
-  private readonly siteEndpoint: string;
   private jar: CookieJar;
   private readonly baseUrl: string;
   private readonly username: string;
   private readonly password: string;
 
   private loginPromise: Promise<void> | null = null;
+  private authenticated = false;
   private csrfToken: string | null = null;
+  private layout: ControllerLayout | null = null;
+  private detectPromise: Promise<ControllerLayout> | null = null;
 
   constructor(
     baseUrl: string,
@@ -82,11 +82,17 @@ export class UdmClient {
     password: string,
     private readonly site: string,
     allowSelfSigned: boolean,
+    private readonly apiKey?: string,
+    controllerType: UdmControllerType = 'unifi-os',
+    private readonly retry: RetryOptions = defaultRetryOptions,
   ) {
     this.baseUrl = baseUrl;
     this.username = username;
     this.password = password;
-    this.siteEndpoint = `/proxy/network/api/s/${this.site}/rest/portforward`;
+    // API keys only exist on UniFi OS, so there is nothing to detect.
+    if (controllerType !== 'auto' || apiKey) {
+      this.layout = controllerLayout(controllerType === 'auto' ? 'unifi-os' : controllerType, site);
+    }
     this.jar = new CookieJar();
 
     this.http = axios.create({
@@ -94,6 +100,7 @@ export class UdmClient {
       headers: {
         Accept: 'application/json',
         'Content-Type': 'application/json',
+        ...(apiKey ? { 'X-API-KEY': apiKey } : {}),
       },
       httpsAgent: new https.Agent({ rejectUnauthorized: !allowSelfSigned }),
       timeout: 15_000,
@@ -101,12 +108,16 @@ export class UdmClient {
     });
   }
 
-  async listPortForwards(): Promise<PortForwardRule[]> {
-    logDebug('[udm] Listing port forwards');
-    const response = await this.request<PortForwardResponse | RawPortForward[]>({
-      method: 'GET',
-      url: this.siteEndpoint,
-    });
+  async listPortForwards(signal?: AbortSignal): Promise<PortForwardRule[]> {
+    logger.debug('Listing port forwards');
+    const response = await this.send<PortForwardResponse | RawPortForward[]>(
+      'list',
+      {
+        method: 'GET',
+        url: await this.portForwardPath(undefined, signal),
+      },
+      signal,
+    );
 
     const payload = Array.isArray(response.data)
       ? response.data
@@ -114,17 +125,35 @@ export class UdmClient {
         ? response.data?.data
         : [];
 
-    logDebug('[udm] List port forwards response', { count: payload.length });
+    logger.debug('List port forwards response', { count: payload.length });
     if (payload[0]) {
-      logDebug('[udm] Sample existing port forward', payload[0]);
+      logger.trace('Sample existing port forward', { rule: payload[0] });
     }
 
     return payload.map((raw) => this.mapRawToRule(raw));
   }
 
-  async createPortForward(request: PortForwardRequest): Promise<PortForwardRule> {
-    const payload = this.toPayload(request);
-    logDebug('[udm] Creating port forward', {
+  /**
+   * The body sent to the router for a create (no rule) or an update of an
+   * existing rule. Unknown fields of the existing rule are preserved.
+   */
+  buildPayload(request: PortForwardRequest, rule?: PortForwardRule): PortForwardPayload {
+    if (!rule) {
+      return this.toPayload(request);
+    }
+    return {
+      ...rule.raw,
+      ...this.toPayload(request),
+      _id: rule.id,
+    };
+  }
+
+  async createPortForward(
+    request: PortForwardRequest,
+    signal?: AbortSignal,
+  ): Promise<PortForwardRule> {
+    const payload = this.buildPayload(request);
+    logger.debug('Creating port forward', {
       name: payload.name,
       externalPort: payload.dst_port,
       internalIp: payload.fwd,
@@ -133,49 +162,121 @@ export class UdmClient {
       wanIp: payload.wanip,
       protocol: payload.proto,
     });
-    const response = await this.request<PortForwardResponse>({
-      method: 'POST',
-      url: this.siteEndpoint,
-      data: payload,
-    });
-    const raw = this.unwrapSingle(response.data);
-    return this.mapRawToRule(raw);
+    const url = await this.portForwardPath(undefined, signal);
+    let mayExist = false;
+    return withRetry(
+      async () => {
+        // A POST that failed ambiguously may still have created the rule, so
+        // look for it before sending the request again.
+        if (mayExist) {
+          const created = (await this.listPortForwards(signal)).find(
+            (rule) => rule.name === payload.name,
+          );
+          if (created) {
+            logger.info(`Port forward '${payload.name}' was created despite the failed request`, {
+              ruleId: created.id,
+            });
+            return created;
+          }
+        }
+        try {
+          const response = await this.request<PortForwardResponse>('create', {
+            method: 'POST',
+            url,
+            data: payload,
+            signal,
+          });
+          return this.mapRawToRule(this.unwrapSingle(response.data));
+        } catch (error) {
+          mayExist ||= classifyFailure(error) === 'ambiguous';
+          throw error;
+        }
+      },
+      {
+        label: 'UDM create',
+        maxRetries: this.retry.maxWriteRetries,
+        options: this.retry,
+        signal,
+      },
+    );
   }
 
   async updatePortForward(
     rule: PortForwardRule,
     request: PortForwardRequest,
+    signal?: AbortSignal,
   ): Promise<PortForwardRule> {
-    const payload = {
-      ...rule.raw,
-      ...this.toPayload(request),
-      _id: rule.id,
-    };
-    logDebug('[udm] Updating port forward', {
-      id: rule.id,
+    const payload = this.buildPayload(request, rule);
+    logger.debug('Updating port forward', {
+      ruleId: rule.id,
       name: rule.name,
       externalPort: payload.dst_port,
       internalIp: payload.fwd,
       protocol: payload.proto,
     });
-    const response = await this.request<PortForwardResponse>({
-      method: 'PUT',
-      url: `${this.siteEndpoint}/${rule.id}`,
-      data: payload,
-    });
+    const response = await this.send<PortForwardResponse>(
+      'update',
+      {
+        method: 'PUT',
+        url: await this.portForwardPath(rule.id, signal),
+        data: payload,
+      },
+      signal,
+    );
     const raw = this.unwrapSingle(response.data);
     return this.mapRawToRule(raw);
   }
 
-  async deletePortForward(id: string): Promise<void> {
-    logDebug('[udm] Deleting port forward', { id });
-    await this.request<void>({
-      method: 'DELETE',
-      url: `${this.siteEndpoint}/${id}`,
+  async deletePortForward(id: string, signal?: AbortSignal): Promise<void> {
+    logger.debug('Deleting port forward', { ruleId: id });
+    const url = await this.portForwardPath(id, signal);
+    let mayBeGone = false;
+    await withRetry(
+      async () => {
+        try {
+          await this.request<void>('delete', { method: 'DELETE', url, signal });
+        } catch (error) {
+          // A DELETE that failed ambiguously may have removed the rule, so the
+          // retry finding nothing to delete means the first attempt succeeded.
+          const notFound = axios.isAxiosError(error) && error.response?.status === 404;
+          if (mayBeGone && notFound) {
+            logger.info(`Port forward ${id} was deleted despite the failed request`, {
+              ruleId: id,
+            });
+            return;
+          }
+          mayBeGone ||= classifyFailure(error) === 'ambiguous';
+          throw error;
+        }
+      },
+      {
+        label: 'UDM delete',
+        maxRetries: this.retry.maxWriteRetries,
+        options: this.retry,
+        signal,
+      },
+    );
+  }
+
+  /** Sends an idempotent request, retrying transient failures. */
+  private send<T>(
+    operation: Exclude<UdmOperation, 'create' | 'delete'>,
+    config: AxiosRequestConfig,
+    signal?: AbortSignal,
+  ): Promise<AxiosResponse<T>> {
+    return withRetry(() => this.request<T>(operation, { ...config, signal }), {
+      label: `UDM ${operation}`,
+      maxRetries: operation === 'list' ? this.retry.maxReadRetries : this.retry.maxWriteRetries,
+      options: this.retry,
+      signal,
     });
   }
 
-  private async request<T>(config: AxiosRequestConfig, attempt = 0): Promise<AxiosResponse<T>> {
+  private async request<T>(
+    operation: UdmOperation,
+    config: AxiosRequestConfig,
+    attempt = 0,
+  ): Promise<AxiosResponse<T>> {
     await this.ensureAuthenticated();
 
     const prepared: AxiosRequestConfig = {
@@ -185,51 +286,69 @@ export class UdmClient {
       },
     };
 
+    // API key sessions are stateless: no cookies are sent or stored.
     const targetUrl = this.resolveUrl(config.url);
-    const cookieHeader = await this.jar.getCookieString(targetUrl);
+    const cookieHeader = this.apiKey ? '' : await this.jar.getCookieString(targetUrl);
     if (cookieHeader) {
       prepared.headers = prepared.headers ?? {};
       prepared.headers.Cookie = cookieHeader;
     }
 
     try {
-      logDebug('[udm] HTTP request', {
+      logger.debug('HTTP request', {
+        operation,
         method: prepared.method,
         url: prepared.url,
         attempt,
         hasCookie: Boolean(cookieHeader),
       });
       const response = await this.http.request<T>(prepared);
-      await this.storeCookies(response.headers['set-cookie'], targetUrl);
-      logDebug('[udm] HTTP response', {
+      metrics.udmRequests.inc({ operation, status: statusLabel(response.status) });
+      if (!this.apiKey) {
+        await this.storeCookies(response.headers['set-cookie'], targetUrl);
+      }
+      logger.debug('HTTP response', {
         method: prepared.method,
         url: prepared.url,
         status: response.status,
       });
       return response;
     } catch (error) {
+      metrics.udmRequests.inc({
+        operation,
+        status: statusLabel(axios.isAxiosError(error) ? error.response?.status : undefined),
+      });
       if (axios.isAxiosError(error)) {
-        if (error.response?.headers) {
+        if (this.apiKey && this.isAuthError(error)) {
+          logger.error('UDM rejected the API key', {
+            operation,
+            status: error.response?.status,
+          });
+          throw new Error(
+            `UDM rejected the API key (HTTP ${error.response?.status}); check that UDM_API_KEY is valid and has not been revoked`,
+          );
+        }
+        if (!this.apiKey && error.response?.headers) {
           await this.storeCookies(error.response.headers['set-cookie'], targetUrl);
         }
         if (attempt === 0 && this.isAuthError(error)) {
           await this.invalidateAuth();
-          return this.request(config, attempt + 1);
+          return this.request(operation, config, attempt + 1);
         }
 
         const errorData = this.describeResponseData(error.response?.data);
-        logDebug('[udm] HTTP error', {
-          method: prepared.method,
+        const fields = {
+          operation,
+          method: prepared.method ?? 'GET',
           url: prepared.url,
           status: error.response?.status,
           message: error.message,
           data: errorData,
-        });
+        };
         if (error.response?.status && error.response.status >= 400) {
-          const serialized = typeof errorData === 'string' ? errorData : JSON.stringify(errorData);
-          console.error(
-            `[udm] Request failed: ${prepared.method ?? 'GET'} ${prepared.url ?? ''} -> ${error.response.status} | ${serialized}`,
-          );
+          logger.error('Request failed', fields);
+        } else {
+          logger.debug('HTTP error', fields);
         }
       }
       throw error;
@@ -244,12 +363,59 @@ export class UdmClient {
     return status === 401 || status === 403;
   }
 
+  private async portForwardPath(id?: string, signal?: AbortSignal): Promise<string> {
+    const { sitePath } = await this.resolveLayout(signal);
+    return id ? `${sitePath}/rest/portforward/${id}` : `${sitePath}/rest/portforward`;
+  }
+
+  private async resolveLayout(signal?: AbortSignal): Promise<ControllerLayout> {
+    if (this.layout) {
+      return this.layout;
+    }
+    this.detectPromise ??= this.detectControllerType(signal);
+    try {
+      this.layout = await this.detectPromise;
+      return this.layout;
+    } finally {
+      this.detectPromise = null;
+    }
+  }
+
+  /**
+   * UniFi OS consoles answer `/` themselves, while a standalone Network
+   * application redirects it to `/manage`. Any other answer, such as a console
+   * still booting, throws so that the next request detects the type again.
+   */
+  private async detectControllerType(signal?: AbortSignal): Promise<ControllerLayout> {
+    const response = await this.http.get('/', {
+      maxRedirects: 0,
+      validateStatus: () => true,
+      signal,
+    });
+    const location = response.headers?.location;
+    const redirectsToManage =
+      response.status >= 300 &&
+      response.status < 400 &&
+      typeof location === 'string' &&
+      new URL(location, this.baseUrl).pathname.startsWith('/manage');
+    if (response.status !== 200 && !redirectsToManage) {
+      throw new Error(
+        `Unable to detect the controller type: GET / answered HTTP ${response.status}; set UDM_CONTROLLER_TYPE to skip detection`,
+      );
+    }
+    const type = response.status === 200 ? 'unifi-os' : 'standalone';
+    logger.info(`Detected ${type === 'unifi-os' ? 'UniFi OS' : 'standalone'} controller`, {
+      status: response.status,
+    });
+    return controllerLayout(type, this.site);
+  }
+
   private async ensureAuthenticated(): Promise<void> {
-    if (this.csrfToken) {
+    if (this.apiKey || this.authenticated) {
       return;
     }
     if (!this.loginPromise) {
-      logDebug('[udm] Starting authentication');
+      logger.debug('Starting authentication');
       this.loginPromise = this.authenticate();
     }
     try {
@@ -262,14 +428,15 @@ export class UdmClient {
   private async authenticate(): Promise<void> {
     await this.resetSession();
 
-    const loginUrl = this.resolveUrl('/api/auth/login');
-    logDebug('[udm] Logging in', { loginUrl });
+    const layout = await this.resolveLayout();
+    const loginUrl = this.resolveUrl(layout.loginPath);
+    logger.debug('Logging in', { loginUrl, controller: layout.type });
     const response = await this.http.post(
-      '/api/auth/login',
+      layout.loginPath,
       {
         username: this.username,
         password: this.password,
-        rememberMe: false,
+        ...(layout.type === 'unifi-os' ? { rememberMe: false } : { remember: false }),
       },
       {
         headers: {
@@ -281,13 +448,22 @@ export class UdmClient {
     await this.storeCookies(response.headers['set-cookie'], loginUrl);
 
     const csrfToken = await this.extractCsrfToken(response.headers['x-csrf-token']);
-    if (!csrfToken) {
+    if (layout.type === 'standalone') {
+      // Older standalone controllers issue only the `unifises` session cookie.
+      const cookies = await this.jar.getCookies(this.baseUrl);
+      if (!cookies.some((cookie: Cookie) => cookie.key === 'unifises')) {
+        throw new Error('Unable to find unifises session cookie in controller login response');
+      }
+    } else if (!csrfToken) {
       throw new Error('Unable to determine CSRF token from UDM authentication response');
     }
 
     this.csrfToken = csrfToken;
-    this.http.defaults.headers.common['X-CSRF-Token'] = csrfToken;
-    logDebug('[udm] Authentication successful');
+    if (csrfToken) {
+      this.http.defaults.headers.common['X-CSRF-Token'] = csrfToken;
+    }
+    this.authenticated = true;
+    logger.debug('Authentication successful');
   }
 
   private async extractCsrfToken(
@@ -314,7 +490,7 @@ export class UdmClient {
     }
     const cookieList = Array.isArray(rawCookies) ? rawCookies : [rawCookies];
     if (cookieList.length > 0) {
-      logDebug('[udm] Storing cookies', { count: cookieList.length, url });
+      logger.trace('Storing cookies', { count: cookieList.length, url });
     }
     await Promise.all(
       cookieList.filter(Boolean).map((cookieHeader) => this.jar.setCookie(cookieHeader, url)),
@@ -340,14 +516,16 @@ export class UdmClient {
 
   private async resetSession(): Promise<void> {
     this.jar = new CookieJar();
+    this.authenticated = false;
     this.csrfToken = null;
     delete this.http.defaults.headers.common['X-CSRF-Token'];
-    logDebug('[udm] Session reset');
+    logger.debug('Session reset');
   }
 
   private async invalidateAuth(): Promise<void> {
+    metrics.udmReauthentications.inc();
     await this.resetSession();
-    logDebug('[udm] Authentication invalidated, will retry');
+    logger.debug('Authentication invalidated, will retry');
   }
 
   private toPayload(request: PortForwardRequest): PortForwardPayload {
@@ -355,8 +533,8 @@ export class UdmClient {
       name: request.name,
       enabled: request.enabled,
       proto: this.serializeProtocol(request.protocol),
-      dst_port: String(request.externalPort),
-      fwd_port: String(request.internalPort),
+      dst_port: formatPortRange(request.externalPort, request.externalPortEnd),
+      fwd_port: formatPortRange(request.internalPort, request.internalPortEnd),
       fwd: request.internalIp,
       src: request.source,
       dst: request.destination,
@@ -365,7 +543,7 @@ export class UdmClient {
     };
   }
 
-  private serializeProtocol(protocol: UdmProtocol): string {
+  private serializeProtocol(protocol: ForwardProtocol): string {
     return protocol;
   }
 
@@ -407,7 +585,7 @@ export class UdmClient {
     };
   }
 
-  private normalizeProtocol(value?: string): UdmProtocol {
+  private normalizeProtocol(value?: string): ForwardProtocol {
     if (!value) {
       return 'tcp';
     }